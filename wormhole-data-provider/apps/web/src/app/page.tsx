@@ -15,17 +15,21 @@ import { Label } from "@/components/ui/label";
 import { Skeleton } from "@/components/ui/skeleton";
 import { toast } from "sonner";
 import { Badge } from "@/components/ui/badge";
+import Provenance from "@/components/provenance";
+import VolumeChart from "@/components/volume-chart";
 
 export default function Home() {
   const queryClient = useQueryClient();
 
   // Form state for routes and notionals
   const [routes, setRoutes] = useState([
-    { source: { chainId: "1", assetId: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v", symbol: "USDC", decimals: 6 },
-      destination: { chainId: "2", assetId: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48", symbol: "USDC", decimals: 6 } }
+    { source: { chainId: "solana", assetId: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v", symbol: "USDC", decimals: 6 },
+      destination: { chainId: "1", assetId: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48", symbol: "USDC", decimals: 6 } }
   ]);
   const [notionals, setNotionals] = useState(["1000", "10000"]);
   const [includeWindows, setIncludeWindows] = useState(["24h"]);
+  const [slippageBpsThresholds, setSlippageBpsThresholds] = useState([50, 100]);
+  const [includeBreakdown, setIncludeBreakdown] = useState(false);
 
   // Health check
   const healthCheck = useQuery(orpc.healthCheck.queryOptions());
@@ -33,25 +37,52 @@ export default function Home() {
   // Plugin ping
   const pluginPing = useQuery(orpc.wormhole.ping.queryOptions());
 
-  // Snapshot query
+  // Snapshot stream: sections render as their events arrive
   const snapshotQuery = useQuery({
-    ...orpc.wormhole.getSnapshot.queryOptions({
+    ...orpc.wormhole.streamSnapshot.experimental_streamedOptions({
       input: {
         routes,
         notionals,
-        includeWindows: includeWindows as Array<"24h" | "7d" | "30d">,
+        includeWindows: includeWindows as Array<"1h" | "24h" | "7d" | "30d" | "90d" | "mtd">,
+        slippageBpsThresholds,
+        includeBreakdown,
       },
+      queryFnOptions: { refetchMode: "reset" },
     }),
-    enabled: routes.length > 0 && notionals.length > 0,
+    enabled: routes.length > 0 && notionals.length > 0 && slippageBpsThresholds.length > 0,
   });
 
+  const snapshotEvents = snapshotQuery.data ?? [];
+  const snapshot = {
+    volumes: snapshotEvents.flatMap((event) => (event.type === "volume" ? [event.volume] : [])),
+    rates: snapshotEvents.flatMap((event) => (event.type === "rate" ? [event.rate] : [])),
+    liquidity: snapshotEvents.flatMap((event) => (event.type === "liquidity" ? [event.liquidity] : [])),
+    listedAssets: snapshotEvents.flatMap((event) => (event.type === "listedAssets" ? [event.listedAssets] : []))[0],
+    errors: snapshotEvents.flatMap((event) => (event.type === "error" ? [event.error] : [])),
+    summary: snapshotEvents.find((event) => event.type === "summary"),
+  };
+  const snapshotStreaming = snapshotQuery.isFetching && !snapshot.summary;
+
+  // Volume trend
+  const [seriesInterval, setSeriesInterval] = useState<"hour" | "day">("day");
+  const volumeSeriesQuery = useQuery(
+    orpc.wormhole.getVolumeSeries.queryOptions({
+      input: {
+        window: seriesInterval === "hour" ? "24h" : "30d",
+        interval: seriesInterval,
+      },
+    }),
+  );
+
   const handleFetchSnapshot = () => {
     queryClient.invalidateQueries({
-      queryKey: orpc.wormhole.getSnapshot.queryKey({
+      queryKey: orpc.wormhole.streamSnapshot.experimental_streamedKey({
         input: {
           routes,
           notionals,
-          includeWindows: includeWindows as Array<"24h" | "7d" | "30d">,
+          includeWindows: includeWindows as Array<"1h" | "24h" | "7d" | "30d" | "90d" | "mtd">,
+          slippageBpsThresholds,
+          includeBreakdown,
         },
       }),
     });
@@ -97,6 +128,8 @@ export default function Home() {
                 className={`h-2 w-2 rounded-full ${
                   pluginPing.data?.status === "ok"
                     ? "bg-green-500"
+                    : pluginPing.data?.status === "degraded"
+                    ? "bg-yellow-500"
                     : "bg-red-500"
                 }`}
               />
@@ -106,13 +139,24 @@ export default function Home() {
                   ? "Checking..."
                   : pluginPing.data?.status === "ok"
                   ? "Connected"
+                  : pluginPing.data?.status === "degraded"
+                  ? "Degraded"
                   : "Disconnected"}
               </span>
             </div>
+            {pluginPing.data?.upstream.error && (
+              <p className="text-xs text-muted-foreground">
+                {pluginPing.data.upstream.error}
+              </p>
+            )}
             {pluginPing.data?.timestamp && (
               <p className="text-xs text-muted-foreground">
                 Last ping:{" "}
                 {new Date(pluginPing.data.timestamp).toLocaleTimeString()}
+                {pluginPing.data.upstream.latencyMs !== null &&
+                  ` (${pluginPing.data.upstream.latencyMs}ms)`}
+                {pluginPing.data.lastSyncAt &&
+                  ` · Last sync: ${new Date(pluginPing.data.lastSyncAt).toLocaleTimeString()}`}
               </p>
             )}
           </CardContent>
@@ -164,7 +208,7 @@ export default function Home() {
             <div>
               <Label>Time Windows</Label>
               <div className="flex gap-2 mt-1">
-                {["24h", "7d", "30d"].map((window) => (
+                {["1h", "24h", "7d", "30d", "90d", "mtd"].map((window) => (
                   <Button
                     key={window}
                     variant={includeWindows.includes(window) ? "default" : "outline"}
@@ -180,10 +224,42 @@ export default function Home() {
                     {window}
                   </Button>
                 ))}
+                <Button
+                  variant={includeBreakdown ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setIncludeBreakdown(!includeBreakdown)}
+                >
+                  breakdown
+                </Button>
+              </div>
+            </div>
+
+            <div>
+              <Label>Slippage Thresholds (bps)</Label>
+              <div className="flex gap-2 mt-1">
+                {[10, 25, 50, 100, 300].map((bps) => (
+                  <Button
+                    key={bps}
+                    variant={slippageBpsThresholds.includes(bps) ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => {
+                      if (slippageBpsThresholds.includes(bps)) {
+                        setSlippageBpsThresholds(slippageBpsThresholds.filter(t => t !== bps));
+                      } else {
+                        setSlippageBpsThresholds([...slippageBpsThresholds, bps]);
+                      }
+                    }}
+                  >
+                    {bps}
+                  </Button>
+                ))}
               </div>
             </div>
 
-            <Button onClick={handleFetchSnapshot} disabled={routes.length === 0 || notionals.length === 0}>
+            <Button
+              onClick={handleFetchSnapshot}
+              disabled={routes.length === 0 || notionals.length === 0 || slippageBpsThresholds.length === 0}
+            >
               Fetch Snapshot
             </Button>
           </CardContent>
@@ -198,26 +274,52 @@ export default function Home() {
             </CardDescription>
           </CardHeader>
           <CardContent>
-            {snapshotQuery.isLoading && (
+            {snapshotStreaming && snapshot.volumes.length === 0 && (
               <div className="space-y-2">
                 <Skeleton className="h-8 w-full" />
                 <Skeleton className="h-8 w-3/4" />
               </div>
             )}
 
-            {snapshotQuery.data?.volumes && (
+            {snapshot.volumes.length > 0 && (
               <div className="space-y-2">
-                {snapshotQuery.data.volumes.map((volume, index) => (
-                  <div key={index} className="flex justify-between items-center p-3 border rounded-lg">
-                    <div>
-                      <span className="font-medium">{volume.window}</span>
-                      <span className="text-sm text-muted-foreground ml-2">
-                        window
-                      </span>
+                {snapshot.volumes.map((volume, index) => (
+                  <div key={index} className="p-3 border rounded-lg space-y-2">
+                    <div className="flex justify-between items-center">
+                      <div>
+                        <span className="font-medium">
+                          {typeof volume.window === "string" ? volume.window : "custom"}
+                        </span>
+                        <span className="text-sm text-muted-foreground ml-2">
+                          {new Date(volume.from).toLocaleString()} – {new Date(volume.to).toLocaleString()}
+                        </span>
+                      </div>
+                      <Badge variant="secondary">
+                        ${volume.volumeUsd.toLocaleString()}
+                      </Badge>
                     </div>
-                    <Badge variant="secondary">
-                      ${volume.volumeUsd.toLocaleString()}
-                    </Badge>
+                    <Provenance provenance={volume.provenance} />
+                    {volume.breakdown && (
+                      <div className="space-y-1 text-sm">
+                        <div className="text-muted-foreground">
+                          {volume.breakdown.transfers} transfers · {volume.breakdown.uniqueSenders} senders
+                        </div>
+                        {volume.breakdown.routes.map((route, routeIndex) => (
+                          <div key={`route-${routeIndex}`} className="flex justify-between">
+                            <span>
+                              {route.route.source.symbol} {route.route.source.chainId} → {route.route.destination.chainId}
+                            </span>
+                            <span>${route.volumeUsd.toLocaleString()} · {route.transfers} transfers</span>
+                          </div>
+                        ))}
+                        {volume.breakdown.chainPairs.slice(0, 5).map((pair) => (
+                          <div key={`${pair.sourceChainId}-${pair.destinationChainId}`} className="flex justify-between text-muted-foreground">
+                            <span>{pair.sourceChainId} → {pair.destinationChainId}</span>
+                            <span>${pair.volumeUsd.toLocaleString()} · {pair.transfers} transfers</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
@@ -225,6 +327,45 @@ export default function Home() {
           </CardContent>
         </Card>
 
+        {/* Volume Trend */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Volume Trend</CardTitle>
+            <CardDescription>
+              {seriesInterval === "hour" ? "Hourly volume over the last 24 hours" : "Daily volume over the last 30 days"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex gap-2">
+              {(["hour", "day"] as const).map((interval) => (
+                <Button
+                  key={interval}
+                  variant={seriesInterval === interval ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setSeriesInterval(interval)}
+                >
+                  {interval === "hour" ? "hourly" : "daily"}
+                </Button>
+              ))}
+            </div>
+
+            {volumeSeriesQuery.isLoading && <Skeleton className="h-40 w-full" />}
+
+            {volumeSeriesQuery.error && (
+              <p className="text-sm text-destructive">
+                Error: {volumeSeriesQuery.error.message}
+              </p>
+            )}
+
+            {volumeSeriesQuery.data && (
+              <>
+                <VolumeChart buckets={volumeSeriesQuery.data.buckets} interval={volumeSeriesQuery.data.interval} />
+                <Provenance provenance={volumeSeriesQuery.data.provenance} />
+              </>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Rate Quotes */}
         <Card>
           <CardHeader>
@@ -234,16 +375,16 @@ export default function Home() {
             </CardDescription>
           </CardHeader>
           <CardContent>
-            {snapshotQuery.isLoading && (
+            {snapshotStreaming && snapshot.rates.length === 0 && (
               <div className="space-y-2">
                 <Skeleton className="h-16 w-full" />
                 <Skeleton className="h-16 w-full" />
               </div>
             )}
 
-            {snapshotQuery.data?.rates && (
+            {snapshot.rates.length > 0 && (
               <div className="space-y-3">
-                {snapshotQuery.data.rates.map((rate, index) => (
+                {snapshot.rates.map((rate, index) => (
                   <div key={index} className="p-4 border rounded-lg">
                     <div className="flex justify-between items-start mb-2">
                       <div>
@@ -254,9 +395,14 @@ export default function Home() {
                           {rate.source.chainId} → {rate.destination.chainId}
                         </div>
                       </div>
-                      <Badge variant="outline">
-                        {rate.effectiveRate.toFixed(4)} rate
-                      </Badge>
+                      <div className="flex gap-2">
+                        <Badge variant="secondary">
+                          {rate.quoteSource}{rate.protocol ? ` · ${rate.protocol}` : ""}
+                        </Badge>
+                        <Badge variant="outline">
+                          {rate.effectiveRate.toFixed(4)} rate
+                        </Badge>
+                      </div>
                     </div>
 
                     <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
@@ -270,7 +416,7 @@ export default function Home() {
                       </div>
                       <div>
                         <span className="text-muted-foreground">Fees:</span>
-                        <div className="font-mono">${rate.totalFeesUsd?.toFixed(2) || '0.00'}</div>
+                        <div className="font-mono">{rate.totalFeesUsd === null ? 'unknown' : `$${rate.totalFeesUsd.toFixed(2)}`}</div>
                       </div>
                       <div>
                         <span className="text-muted-foreground">Quoted:</span>
@@ -279,6 +425,10 @@ export default function Home() {
                         </div>
                       </div>
                     </div>
+
+                    <div className="mt-3">
+                      <Provenance provenance={rate.provenance} />
+                    </div>
                   </div>
                 ))}
               </div>
@@ -295,16 +445,16 @@ export default function Home() {
             </CardDescription>
           </CardHeader>
           <CardContent>
-            {snapshotQuery.isLoading && (
+            {snapshotStreaming && snapshot.liquidity.length === 0 && (
               <div className="space-y-2">
                 <Skeleton className="h-12 w-full" />
                 <Skeleton className="h-12 w-full" />
               </div>
             )}
 
-            {snapshotQuery.data?.liquidity && (
+            {snapshot.liquidity.length > 0 && (
               <div className="space-y-3">
-                {snapshotQuery.data.liquidity.map((liquidity, index) => (
+                {snapshot.liquidity.map((liquidity, index) => (
                   <div key={index} className="p-4 border rounded-lg">
                     <div className="font-medium mb-3">
                       {liquidity.route.source.symbol} → {liquidity.route.destination.symbol}
@@ -319,11 +469,19 @@ export default function Home() {
                             </span>
                           </div>
                           <Badge variant="secondary">
-                            ${threshold.maxAmountIn}
+                            {threshold.maxAmountIn === null
+                              ? "Unknown"
+                              : threshold.limitedBy === "transfer-limit"
+                                ? `${threshold.maxAmountIn} (transfer limit)`
+                                : threshold.maxAmountIn}
                           </Badge>
                         </div>
                       ))}
                     </div>
+
+                    <div className="mt-3">
+                      <Provenance provenance={liquidity.provenance} />
+                    </div>
                   </div>
                 ))}
               </div>
@@ -340,23 +498,24 @@ export default function Home() {
             </CardDescription>
           </CardHeader>
           <CardContent>
-            {snapshotQuery.isLoading && (
+            {snapshotStreaming && !snapshot.listedAssets && (
               <div className="space-y-2">
                 <Skeleton className="h-8 w-full" />
                 <Skeleton className="h-8 w-3/4" />
               </div>
             )}
 
-            {snapshotQuery.data?.listedAssets && (
+            {snapshot.listedAssets && (
               <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                {snapshotQuery.data.listedAssets.assets.map((asset, index) => (
+                {snapshot.listedAssets.assets.map((asset, index) => (
                   <div key={index} className="p-3 border rounded-lg">
                     <div className="font-medium">{asset.symbol}</div>
                     <div className="text-sm text-muted-foreground">
                       Chain: {asset.chainId}
                     </div>
                     <div className="text-sm text-muted-foreground">
-                      Decimals: {asset.decimals}
+                      Decimals: {asset.decimals ?? "unknown"}
+                      {asset.decimalsSource === "token-list" && " (token list)"}
                     </div>
                     <div className="text-xs text-muted-foreground font-mono mt-1">
                       {asset.assetId.slice(0, 10)}...
@@ -368,6 +527,29 @@ export default function Home() {
           </CardContent>
         </Card>
 
+        {snapshot.summary && !snapshot.summary.complete && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Partial Snapshot</CardTitle>
+              <CardDescription>
+                Some parts of the snapshot could not be computed
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-1">
+              {snapshot.errors.map((error, index) => (
+                <p key={index} className="text-sm text-destructive">
+                  {error.section}
+                  {error.window &&
+                    ` ${typeof error.window === "string" ? error.window : `${error.window.from} to ${error.window.to}`}`}
+                  {error.route &&
+                    ` ${error.route.source.symbol} ${error.route.source.chainId} → ${error.route.destination.chainId}`}
+                  {error.notional && ` @ ${error.notional}`}: {error.message}
+                </p>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {snapshotQuery.error && (
           <Card>
             <CardContent className="pt-6">
@@ -0,0 +1,38 @@
+import { Badge } from "@/components/ui/badge";
+
+type ProvenanceInfo = {
+	source: string;
+	sampleSize: number;
+	coveredFrom: string | null;
+	coveredTo: string | null;
+	fallbackUsed: boolean;
+	confidence: number;
+};
+
+const formatTime = (value: string | null) =>
+	value ? new Date(value).toLocaleString() : "–";
+
+export default function Provenance({ provenance }: { provenance: ProvenanceInfo }) {
+	const confidence = Math.round(provenance.confidence * 100);
+
+	return (
+		<div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+			<Badge variant={provenance.fallbackUsed ? "destructive" : "outline"}>
+				{provenance.fallbackUsed ? "fallback" : provenance.source}
+			</Badge>
+			<span>{confidence}% confidence</span>
+			<span>·</span>
+			<span>
+				{provenance.sampleSize} {provenance.sampleSize === 1 ? "operation" : "operations"}
+			</span>
+			{provenance.coveredFrom && (
+				<>
+					<span>·</span>
+					<span>
+						{formatTime(provenance.coveredFrom)} – {formatTime(provenance.coveredTo)}
+					</span>
+				</>
+			)}
+		</div>
+	);
+}
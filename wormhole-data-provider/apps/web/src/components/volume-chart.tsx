@@ -0,0 +1,42 @@
+type VolumeBucket = {
+	start: string;
+	end: string;
+	volumeUsd: number;
+	transfers: number;
+};
+
+const formatBucket = (value: string, interval: "hour" | "day") =>
+	interval === "hour"
+		? new Date(value).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+		: new Date(value).toLocaleDateString();
+
+export default function VolumeChart({
+	buckets,
+	interval,
+}: {
+	buckets: VolumeBucket[];
+	interval: "hour" | "day";
+}) {
+	const max = Math.max(...buckets.map((bucket) => bucket.volumeUsd), 1);
+
+	return (
+		<div className="space-y-2">
+			<div className="flex h-40 items-end gap-px">
+				{buckets.map((bucket) => (
+					<div
+						key={bucket.start}
+						className="flex-1 rounded-t bg-primary/70 hover:bg-primary"
+						style={{ height: `${(bucket.volumeUsd / max) * 100}%` }}
+						title={`${formatBucket(bucket.start, interval)}: $${bucket.volumeUsd.toLocaleString()} · ${bucket.transfers} transfers`}
+					/>
+				))}
+			</div>
+			{buckets.length > 0 && (
+				<div className="flex justify-between text-xs text-muted-foreground">
+					<span>{formatBucket(buckets[0].start, interval)}</span>
+					<span>{formatBucket(buckets[buckets.length - 1].start, interval)}</span>
+				</div>
+			)}
+		</div>
+	);
+}
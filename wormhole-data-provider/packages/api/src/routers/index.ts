@@ -8,6 +8,8 @@ export const appRouter = publicProcedure.router({
 	}),
 	wormhole: {
 		getSnapshot: wormholeRouter.getSnapshot,
+		streamSnapshot: wormholeRouter.streamSnapshot,
+		getVolumeSeries: wormholeRouter.getVolumeSeries,
 		ping: wormholeRouter.ping,
 	},
 });
@@ -17,11 +17,22 @@ const runtime = createPluginRuntime<AppBindings>({
   },
 });
 
+// Integer setting from the environment; unset, empty or non-numeric values
+// fall back rather than failing plugin init
+function envInteger(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] ?? "", 10);
+  return Number.isFinite(value) ? value : fallback;
+}
+
 export const { router: wormholeRouter } = await runtime.usePlugin("@every-plugin/wormhole", {
   variables: {
     baseUrl: process.env.WORMHOLE_BASE_URL || "https://api.wormholescan.io/api/v1",
     timeout: Number(process.env.WORMHOLE_TIMEOUT) || 10000,
     requestsPerSecond: Number(process.env.WORMHOLE_REQUESTS_PER_SECOND) || 10,
+    maxRetries: envInteger("WORMHOLE_MAX_RETRIES", 3),
+    storePath: process.env.WORMHOLE_STORE_PATH || undefined,
+    syncIntervalMs: envInteger("WORMHOLE_SYNC_INTERVAL_MS", 15000),
+    maxConcurrency: Number(process.env.WORMHOLE_MAX_CONCURRENCY) || 4,
   },
   secrets: { apiKey: "{{WORMHOLE_API_KEY}}" },
 });
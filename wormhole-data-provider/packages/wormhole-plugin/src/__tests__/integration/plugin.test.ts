@@ -1,10 +1,9 @@
 import type { PluginRegistry } from "every-plugin";
+import { Effect } from "every-plugin/effect";
 import { createLocalPluginRuntime } from "every-plugin/testing";
-import { beforeAll, describe, expect, it, vi, beforeEach } from "vitest";
-import WormholePlugin from "../../index";
-
-// Mock fetch globally
-global.fetch = vi.fn();
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi, beforeEach } from "vitest";
+import { createWormholePlugin } from "../../index";
+import { type MockWormholescan, startMockWormholescan } from "../support/wormholescan-server";
 
 // Mock route for testing
 const mockRoute = {
@@ -30,16 +29,21 @@ const TEST_REGISTRY: PluginRegistry = {
   },
 };
 
+let server: MockWormholescan;
+
 const TEST_PLUGIN_MAP = {
-  "@every-plugin/wormhole": WormholePlugin,
+  // Sends Wormholescan requests to the local mock, started before any plugin is
+  "@every-plugin/wormhole": createWormholePlugin({ transport: (url, init) => server.fetch(url, init) }),
 } as const;
 
 const TEST_CONFIG = {
   variables: {
-    baseUrl: "https://api.wormhole.com",
+    // Replaced with the mock's address once it is listening
+    baseUrl: "http://127.0.0.1",
     timeout: 5000,
     requestsPerSecond: 10,
     maxRetries: 0, // No retries in tests to avoid timeout
+    syncIntervalMs: 0, // Snapshots sync on demand, so each test controls what they see
   },
   secrets: {
     apiKey: "test-api-key",
@@ -55,29 +59,33 @@ describe("Wormhole Plugin Integration Tests", () => {
     TEST_PLUGIN_MAP
   );
 
+  let config: typeof TEST_CONFIG;
+
   beforeAll(async () => {
-    // Set up fetch mock before initializing plugin
-    // Mock fetch to return ok for health checks during initialization
-    (global.fetch as any).mockResolvedValue({
-      ok: true,
-      status: 200,
-      json: async () => ({ status: "ok" }),
-    });
-    
-    const { initialized } = await runtime.usePlugin("@every-plugin/wormhole", TEST_CONFIG);
+    server = await startMockWormholescan();
+    config = { ...TEST_CONFIG, variables: { ...TEST_CONFIG.variables, baseUrl: server.baseUrl } };
+
+    const { initialized } = await runtime.usePlugin("@every-plugin/wormhole", config);
     expect(initialized).toBeDefined();
     expect(initialized.plugin.id).toBe("@every-plugin/wormhole");
   });
 
+  afterAll(async () => {
+    await server.close();
+  });
+
   beforeEach(() => {
-    vi.clearAllMocks();
-    // Default to fallback behavior when API unavailable for actual test calls
-    (global.fetch as any).mockRejectedValue(new Error("API unavailable"));
+    server.reset();
+  });
+
+  afterEach(async () => {
+    // Each test starts from an empty dataset and snapshot cache
+    await runtime.evictPlugin("@every-plugin/wormhole", config);
   });
 
   describe("getSnapshot procedure", () => {
     it("should fetch complete snapshot successfully", async () => {
-      const { client } = await runtime.usePlugin("@every-plugin/wormhole", TEST_CONFIG);
+      const { client } = await runtime.usePlugin("@every-plugin/wormhole", config);
 
       const result = await client.getSnapshot({
         routes: [mockRoute],
@@ -98,12 +106,12 @@ describe("Wormhole Plugin Integration Tests", () => {
       expect(result.rates.length).toBeGreaterThan(0);
       expect(Array.isArray(result.liquidity)).toBe(true);
       expect(result.liquidity.length).toBeGreaterThan(0);
-      expect(Array.isArray(result.listedAssets.assets)).toBe(true);
-      expect(result.listedAssets.assets.length).toBeGreaterThan(0);
+      expect(Array.isArray(result.listedAssets!.assets)).toBe(true);
+      expect(result.listedAssets!.assets.length).toBeGreaterThan(0);
     });
 
     it("should return volumes for requested time windows", async () => {
-      const { client } = await runtime.usePlugin("@every-plugin/wormhole", TEST_CONFIG);
+      const { client } = await runtime.usePlugin("@every-plugin/wormhole", config);
 
       const result = await client.getSnapshot({
         routes: [mockRoute],
@@ -119,8 +127,26 @@ describe("Wormhole Plugin Integration Tests", () => {
       expect(result.volumes[0].measuredAt).toBeTypeOf("string");
     });
 
+    it("should sum the volume of every operation in each window", async () => {
+      const { client } = await runtime.usePlugin("@every-plugin/wormhole", config);
+
+      const result = await client.getSnapshot({
+        routes: [mockRoute],
+        notionals: ["1000000"],
+        includeWindows: ["24h", "7d"]
+      });
+
+      const volumeSince = (ms: number) =>
+        server.operations
+          .filter((op) => Date.parse(op.sourceChain.timestamp) >= Date.now() - ms)
+          .reduce((sum, op) => sum + (Number(op.data.usdAmount) || 0), 0);
+      expect(result.volumes[0]!.volumeUsd).toBeCloseTo(volumeSince(24 * 60 * 60 * 1000), 6);
+      expect(result.volumes[1]!.volumeUsd).toBeCloseTo(volumeSince(7 * 24 * 60 * 60 * 1000), 6);
+      expect(result.volumes[1]!.volumeUsd).toBeGreaterThan(result.volumes[0]!.volumeUsd);
+    });
+
     it("should generate rates for all route/notional combinations", async () => {
-      const { client } = await runtime.usePlugin("@every-plugin/wormhole", TEST_CONFIG);
+      const { client } = await runtime.usePlugin("@every-plugin/wormhole", config);
 
       const result = await client.getSnapshot({
         routes: [mockRoute],
@@ -144,7 +170,7 @@ describe("Wormhole Plugin Integration Tests", () => {
     });
 
     it("should provide liquidity at required thresholds", async () => {
-      const { client } = await runtime.usePlugin("@every-plugin/wormhole", TEST_CONFIG);
+      const { client } = await runtime.usePlugin("@every-plugin/wormhole", config);
 
       const result = await client.getSnapshot({
         routes: [mockRoute],
@@ -165,14 +191,53 @@ describe("Wormhole Plugin Integration Tests", () => {
 
       // Verify threshold structure
       thresholds.forEach(threshold => {
-        expect(threshold.maxAmountIn).toBeTypeOf("string");
-        expect(parseInt(threshold.maxAmountIn)).toBeGreaterThan(0);
+        // The fee model's quotes do not slip, but stop at the protocol's transfer limit
+        expect(threshold.maxAmountIn).toMatch(/^[1-9]\d*$/);
+        expect(threshold.limitedBy).toBe("transfer-limit");
         expect(threshold.slippageBps).toBeTypeOf("number");
       });
     });
 
+    it("should provide liquidity at caller-specified thresholds", async () => {
+      const { client } = await runtime.usePlugin("@every-plugin/wormhole", config);
+
+      const result = await client.getSnapshot({
+        routes: [mockRoute],
+        notionals: ["1000000"],
+        slippageBpsThresholds: [300, 10, 25, 10],
+      });
+
+      expect(result.liquidity[0].thresholds.map(t => t.slippageBps)).toEqual([10, 25, 300]);
+    });
+
+    it("should reject invalid slippage thresholds", async () => {
+      const { client } = await runtime.usePlugin("@every-plugin/wormhole", config);
+
+      for (const slippageBpsThresholds of [[], [0], [10_000], [12.5]]) {
+        const error = await client.getSnapshot({
+          routes: [mockRoute],
+          notionals: ["1000000"],
+          slippageBpsThresholds,
+        }).catch((e) => e);
+
+        expect(error.code).toBe("BAD_REQUEST");
+      }
+    });
+
+    it("should reject time ranges that end before they start", async () => {
+      const { client } = await runtime.usePlugin("@every-plugin/wormhole", config);
+
+      const error = await client.getSnapshot({
+        routes: [mockRoute],
+        notionals: ["1000000"],
+        includeWindows: [{ from: "2025-03-01T00:00:00Z", to: "2025-02-01T00:00:00Z" }],
+      }).catch((e) => e);
+
+      expect(error.code).toBe("BAD_REQUEST");
+    });
+
     it("should return list of supported assets", async () => {
-      const { client } = await runtime.usePlugin("@every-plugin/wormhole", TEST_CONFIG);
+      const { client } = await runtime.usePlugin("@every-plugin/wormhole", config);
 
       const result = await client.getSnapshot({
         routes: [mockRoute],
@@ -180,10 +245,10 @@ describe("Wormhole Plugin Integration Tests", () => {
         includeWindows: ["24h"]
       });
 
-      expect(result.listedAssets.assets.length).toBeGreaterThan(0);
+      expect(result.listedAssets!.assets.length).toBeGreaterThan(0);
 
       // Verify asset structure matches contract
-      result.listedAssets.assets.forEach(asset => {
+      result.listedAssets!.assets.forEach(asset => {
         expect(asset.chainId).toBeTypeOf("string");
         expect(asset.assetId).toBeTypeOf("string");
         expect(asset.symbol).toBeTypeOf("string");
@@ -191,11 +256,11 @@ describe("Wormhole Plugin Integration Tests", () => {
         expect(asset.decimals).toBeGreaterThanOrEqual(0);
       });
 
-      expect(result.listedAssets.measuredAt).toBeTypeOf("string");
+      expect(result.listedAssets!.measuredAt).toBeTypeOf("string");
     });
 
     it("should handle multiple routes correctly", async () => {
-      const { client } = await runtime.usePlugin("@every-plugin/wormhole", TEST_CONFIG);
+      const { client } = await runtime.usePlugin("@every-plugin/wormhole", config);
 
       const secondRoute = {
         source: {
@@ -224,7 +289,7 @@ describe("Wormhole Plugin Integration Tests", () => {
     });
 
     it("should require routes and notionals", async () => {
-      const { client } = await runtime.usePlugin("@every-plugin/wormhole", TEST_CONFIG);
+      const { client } = await runtime.usePlugin("@every-plugin/wormhole", config);
 
       // Should throw validation error for empty routes
       await expect(
@@ -244,15 +309,214 @@ describe("Wormhole Plugin Integration Tests", () => {
     });
   });
 
+  describe("partial snapshots", () => {
+    it("should return what could be computed with the errors", async () => {
+      const { client } = await runtime.usePlugin("@every-plugin/wormhole", config);
+
+      // Two days of operations on a full first page; the page after it fails
+      const operations = Array.from({ length: 100 }, (_, i) => ({
+        id: `op-${i}`,
+        emitterChain: 2,
+        sourceChain: { chainId: 2, timestamp: new Date(Date.now() - i * 30 * 60 * 1000).toISOString() },
+        data: { symbol: "USDC", usdAmount: "1" },
+      }));
+      server.serve(operations);
+      server.intercept((url) => (url.searchParams.get("page") === "0" ? undefined : { status: 502 }));
+
+      const result = await client.getSnapshot({
+        routes: [mockRoute],
+        notionals: ["1000000"],
+        includeWindows: ["24h", "30d"]
+      });
+
+      expect(result.complete).toBe(false);
+      expect(result.volumes.map((volume) => volume.window)).toEqual(["24h"]);
+      expect(result.errors).toEqual([{
+        section: "volumes",
+        window: "30d",
+        code: "WormholeUpstreamError",
+        message: expect.stringContaining("HTTP 502"),
+        retryable: true,
+      }]);
+      expect(result.rates).toHaveLength(1);
+    });
+  });
+
+  describe("streamSnapshot procedure", () => {
+    it("should stream each part and end with a summary", async () => {
+      server.serve([]);
+      const { client } = await runtime.usePlugin("@every-plugin/wormhole", config);
+
+      const events = [];
+      for await (const event of await client.streamSnapshot({
+        routes: [mockRoute],
+        notionals: ["1000000", "10000000"],
+        includeWindows: ["24h"]
+      })) {
+        events.push(event);
+      }
+
+      expect(events.map((event) => event.type)).toEqual([
+        "volume", "rate", "rate", "liquidity", "listedAssets", "summary"
+      ]);
+      expect(events[events.length - 1]).toMatchObject({ type: "summary", complete: true });
+    });
+  });
+
+  describe("cancellation", () => {
+    it("should cancel upstream requests when the caller aborts", async () => {
+      const { client } = await runtime.usePlugin("@every-plugin/wormhole", config);
+      server.intercept(() => "hang");
+      const controller = new AbortController();
+
+      const snapshot = client.getSnapshot({ routes: [mockRoute], notionals: ["1000000"] }, { signal: controller.signal });
+      await vi.waitFor(() => expect(server.requests.length).toBeGreaterThan(1));
+      controller.abort();
+
+      await expect(snapshot).rejects.toThrow();
+      await vi.waitFor(() => expect(server.aborted).toHaveLength(1));
+    });
+
+    it("should fail snapshots that run past their deadline", async () => {
+      const { client } = await runtime.usePlugin("@every-plugin/wormhole", config);
+      server.intercept(() => "hang");
+
+      await expect(
+        client.getSnapshot({ routes: [mockRoute], notionals: ["1000000"], deadlineMs: 100 })
+      ).rejects.toMatchObject({
+        code: "SERVICE_UNAVAILABLE",
+        message: expect.stringContaining("100ms deadline"),
+      });
+      await vi.waitFor(() => expect(server.aborted).toHaveLength(1));
+    });
+  });
+
+  describe("error mapping", () => {
+    it("should map upstream 429 responses to RATE_LIMITED with Retry-After", async () => {
+      const { client } = await runtime.usePlugin("@every-plugin/wormhole", config);
+
+      server.intercept(() => ({ status: 429, headers: { "Retry-After": "1" } }));
+
+      const error = await client.getSnapshot({
+        routes: [mockRoute],
+        notionals: ["1000000"],
+        includeWindows: ["24h"]
+      }).catch((e) => e);
+
+      expect(error.code).toBe("RATE_LIMITED");
+      expect(error.data.retryAfter).toBe(1);
+    });
+
+    it("should map other upstream failures to SERVICE_UNAVAILABLE", async () => {
+      const { client } = await runtime.usePlugin("@every-plugin/wormhole", config);
+
+      server.intercept(() => ({ status: 502 }));
+
+      const error = await client.getSnapshot({
+        routes: [mockRoute],
+        notionals: ["1000000"],
+        includeWindows: ["24h"]
+      }).catch((e) => e);
+
+      expect(error.code).toBe("SERVICE_UNAVAILABLE");
+      expect(error.message).toContain("HTTP 502");
+    });
+
+    it("should reject routes on unknown chains", async () => {
+      const { client } = await runtime.usePlugin("@every-plugin/wormhole", config);
+
+      const error = await client.getSnapshot({
+        routes: [{ ...mockRoute, destination: { ...mockRoute.destination, chainId: "atlantis" } }],
+        notionals: ["1000000"],
+        includeWindows: ["24h"]
+      }).catch((e) => e);
+
+      expect(error.code).toBe("BAD_REQUEST");
+    });
+  });
+
+  describe("getVolumeSeries procedure", () => {
+    it("should return one bucket per hour of the window", async () => {
+      server.serve([]);
+      const { client } = await runtime.usePlugin("@every-plugin/wormhole", config);
+
+      const result = await client.getVolumeSeries({ window: "24h", interval: "hour" });
+
+      // 24 hours rarely start on the hour, so the first and last buckets are partial
+      expect(result.buckets.length).toBeGreaterThanOrEqual(24);
+      expect(result.buckets.length).toBeLessThanOrEqual(25);
+      expect(result.interval).toBe("hour");
+    });
+
+    it("should reject series with too many buckets", async () => {
+      const { client } = await runtime.usePlugin("@every-plugin/wormhole", config);
+
+      const error = await client.getVolumeSeries({
+        window: { from: "2024-01-01T00:00:00Z", to: "2025-01-01T00:00:00Z" },
+        interval: "hour",
+      }).catch((e) => e);
+
+      expect(error.code).toBe("BAD_REQUEST");
+    });
+  });
+
+  describe("background sync", () => {
+    it("should sync periodically until the plugin shuts down", async () => {
+      const syncing = { ...config, variables: { ...config.variables, syncIntervalMs: 50 } };
+      const operationsRequests = () => server.requests.filter((url) => url.pathname.endsWith("/operations")).length;
+      server.serve([]);
+
+      const { initialized } = await runtime.usePlugin("@every-plugin/wormhole", syncing);
+      await new Promise((resolve) => setTimeout(resolve, 180));
+      // The initialization ping plus at least two syncs
+      expect(operationsRequests()).toBeGreaterThanOrEqual(3);
+
+      // Shut down this instance directly: the runtime's eviction re-initializes uncached plugins
+      await Effect.runPromise(initialized.plugin.shutdown());
+      const afterShutdown = operationsRequests();
+      await new Promise((resolve) => setTimeout(resolve, 150));
+      expect(operationsRequests()).toBe(afterShutdown);
+    });
+
+    it("should cancel the sync in flight when the plugin shuts down", async () => {
+      const syncing = { ...config, variables: { ...config.variables, syncIntervalMs: 60_000 } };
+      // Answer the initialization ping, then leave the sync's first page hanging
+      server.intercept((url) => (url.searchParams.get("pageSize") === "1" ? undefined : "hang"));
+
+      const { initialized } = await runtime.usePlugin("@every-plugin/wormhole", syncing);
+      await vi.waitFor(() => expect(server.requests).toHaveLength(2));
+      await Effect.runPromise(initialized.plugin.shutdown());
+
+      await vi.waitFor(() => expect(server.aborted).toHaveLength(1));
+      expect(server.aborted[0]!.searchParams.get("page")).toBe("0");
+    });
+  });
+
   describe("ping procedure", () => {
     it("should return healthy status", async () => {
-      const { client } = await runtime.usePlugin("@every-plugin/wormhole", TEST_CONFIG);
+      server.serve([]);
+      const { client } = await runtime.usePlugin("@every-plugin/wormhole", config);
 
       const result = await client.ping();
 
-      expect(result).toEqual({
+      expect(result).toMatchObject({
         status: "ok",
         timestamp: expect.any(String),
+        upstream: { reachable: true, error: null },
+      });
+    });
+
+    it("should report an outage instead of failing", async () => {
+      server.intercept(() => "disconnect");
+      const { client } = await runtime.usePlugin("@every-plugin/wormhole", config);
+
+      const result = await client.ping();
+
+      expect(result).toMatchObject({
+        status: "down",
+        upstream: { reachable: false, latencyMs: null },
+        lastSyncAt: null,
+        rateLimiter: { saturation: expect.any(Number) },
       });
     });
   });
@@ -0,0 +1,165 @@
+import { readFileSync } from "node:fs";
+import { type Server, createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { FetchFn } from "../../http";
+
+// Captured at import, so tests that stub the global fetch still reach the server
+const nodeFetch: typeof fetch = globalThis.fetch;
+
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Operations in the shape of Wormholescan's `/operations` responses, as of
+ * `recordedAt`: transfers between eight chains in six tokens over nine
+ * days, one of them with an unparseable `usdAmount`.
+ */
+export interface OperationsFixture {
+  recordedAt: string;
+  operations: FixtureOperation[];
+}
+
+export interface FixtureOperation {
+  id: string;
+  emitterChain: number;
+  content: {
+    standarizedProperties: {
+      fromChain: number;
+      toChain: number;
+      tokenChain: number;
+      tokenAddress: string;
+      amount: string;
+      fee: string;
+      normalizedDecimals: number;
+    };
+  };
+  sourceChain: { chainId: number; timestamp: string };
+  targetChain?: { chainId: number; timestamp: string };
+  data: { symbol: string; tokenAmount: string; usdAmount: string };
+}
+
+export const OPERATIONS_FIXTURE: OperationsFixture = JSON.parse(
+  readFileSync(new URL("../fixtures/operations.json", import.meta.url), "utf8")
+);
+
+// Source timestamp of a served record, NaN when it has none
+const timeOf = (record: unknown) =>
+  Date.parse((record as Partial<FixtureOperation>).sourceChain?.timestamp ?? "");
+
+/**
+ * How to answer an intercepted request: a status with a JSON (or, for a
+ * string, raw) body, a dropped connection, or no answer at all.
+ */
+export type MockReply =
+  | { status: number; body?: unknown; headers?: Record<string, string> }
+  // The client sees a network error
+  | "disconnect"
+  // The client has to time out or abort
+  | "hang";
+
+export interface MockWormholescan {
+  // Base URL of the API, e.g. http://127.0.0.1:port/api/v1
+  baseUrl: string;
+  // Sends requests to the server through the real fetch, whatever the global one is
+  fetch: FetchFn;
+  // Every request the server received
+  requests: URL[];
+  // Requests whose client went away before they were answered
+  aborted: URL[];
+  // The fixture's operations, newest first, with timestamps moved to the server's start
+  operations: FixtureOperation[];
+  // Serve these records, as given, instead of the fixture's operations
+  serve(records: unknown[]): void;
+  // Answer requests the handler returns a reply for with that reply
+  intercept(handler: ((url: URL) => MockReply | undefined) | null): void;
+  // Serve the fixture again, without an interceptor or recorded requests
+  reset(): void;
+  close(): Promise<void>;
+}
+
+/**
+ * Start a local HTTP server answering like Wormholescan's `GET /operations`:
+ * newest first, paged by `page` and `pageSize` (400 above 100), and from
+ * `to` back when it is given. Fixture
+ * timestamps are shifted so the newest recorded operation is as old at the
+ * server's start as it was when recorded, keeping the data inside the
+ * plugin's rolling windows.
+ */
+export async function startMockWormholescan(
+  fixture: OperationsFixture = OPERATIONS_FIXTURE
+): Promise<MockWormholescan> {
+  const shiftMs = Date.now() - Date.parse(fixture.recordedAt);
+  const shift = (timestamp: string) => new Date(Date.parse(timestamp) + shiftMs).toISOString();
+
+  const operations = fixture.operations
+    .map((op) => ({
+      ...op,
+      sourceChain: { ...op.sourceChain, timestamp: shift(op.sourceChain.timestamp) },
+      ...(op.targetChain && { targetChain: { ...op.targetChain, timestamp: shift(op.targetChain.timestamp) } }),
+    }))
+    .sort((a, b) => Date.parse(b.sourceChain.timestamp) - Date.parse(a.sourceChain.timestamp));
+
+  const requests: URL[] = [];
+  const aborted: URL[] = [];
+  let served: unknown[] = operations;
+  let interceptor: ((url: URL) => MockReply | undefined) | null = null;
+
+  const server: Server = createServer((request, response) => {
+    const url = new URL(request.url ?? "/", "http://localhost");
+    requests.push(url);
+    response.on("close", () => {
+      if (!response.writableFinished) aborted.push(url);
+    });
+
+    const reply = (status: number, body: unknown, headers: Record<string, string> = {}) => {
+      response.writeHead(status, { "Content-Type": "application/json", ...headers });
+      response.end(typeof body === "string" ? body : JSON.stringify(body));
+    };
+
+    const intercepted = interceptor?.(url);
+    if (intercepted === "disconnect") return void request.socket.destroy();
+    if (intercepted === "hang") return;
+    if (intercepted) return reply(intercepted.status, intercepted.body ?? {}, intercepted.headers);
+
+    if (request.method !== "GET" || url.pathname !== "/api/v1/operations") {
+      return reply(404, { message: "not found" });
+    }
+
+    const page = Number(url.searchParams.get("page") ?? 0);
+    const pageSize = Number(url.searchParams.get("pageSize") ?? 50);
+    if (!Number.isInteger(page) || page < 0 || !Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+      return reply(400, { message: "invalid pagination" });
+    }
+
+    const to = url.searchParams.has("to") ? Date.parse(url.searchParams.get("to")!) : Number.NaN;
+    const records = Number.isNaN(to) ? served : served.filter((record) => !(timeOf(record) > to));
+    reply(200, { operations: records.slice(page * pageSize, (page + 1) * pageSize) });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}/api/v1`,
+    fetch: (url, init) => nodeFetch(url, init),
+    requests,
+    aborted,
+    operations,
+    serve: (records) => {
+      served = records;
+    },
+    intercept: (handler) => {
+      interceptor = handler;
+    },
+    reset: () => {
+      served = operations;
+      interceptor = null;
+      requests.length = 0;
+      aborted.length = 0;
+    },
+    close: () => {
+      // Hanging requests would otherwise keep the server open
+      server.closeAllConnections();
+      return new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())));
+    },
+  };
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { buildVolumeBreakdown } from "../../breakdown";
+import type { WormholescanOperationType } from "../../wormholescan";
+
+const transfer = (
+  id: string,
+  fromChain: number,
+  toChain: number | null,
+  symbol: string | null,
+  usdAmount: string,
+  fromAddress: string | null
+): WormholescanOperationType => ({
+  id,
+  emitterChain: fromChain,
+  content: { standarizedProperties: { fromChain, toChain, fromAddress } },
+  sourceChain: { chainId: fromChain, timestamp: new Date().toISOString() },
+  data: { symbol, tokenAmount: usdAmount, usdAmount },
+});
+
+const usdc = (chainId: string) => ({ chainId, assetId: "0xusdc", symbol: "USDC", decimals: 6 });
+
+describe("buildVolumeBreakdown", () => {
+  const operations = [
+    transfer("a", 2, 5, "USDC", "100", "0xAbC0000000000000000000000000000000000001"),
+    transfer("b", 2, 5, "USDC", "50", "0x000000000000000000000000abc0000000000000000000000000000000000001"),
+    transfer("c", 1, 2, "SOL", "300", "So1anaSender"),
+    transfer("d", 2, 5, "WETH", "20", null),
+    transfer("e", 999, 2, null, "5", "0xdef"),
+    transfer("f", 2, null, "USDC", "1", "0xabc0000000000000000000000000000000000002"),
+  ];
+
+  const breakdown = buildVolumeBreakdown(operations, [
+    { route: { source: usdc("1"), destination: usdc("137") }, operations: operations.slice(0, 2) },
+    { route: { source: usdc("137"), destination: usdc("1") }, operations: [] },
+  ]);
+
+  it("should count transfers and distinct senders across the window", () => {
+    expect(breakdown.transfers).toBe(6);
+    // The padded and checksummed forms of the first sender are the same address
+    expect(breakdown.uniqueSenders).toBe(4);
+  });
+
+  it("should break volume down by chain pair, largest first", () => {
+    expect(breakdown.chainPairs).toEqual([
+      { sourceChainId: "solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp", destinationChainId: "1", volumeUsd: 300, transfers: 1, uniqueSenders: 1 },
+      { sourceChainId: "1", destinationChainId: "137", volumeUsd: 170, transfers: 3, uniqueSenders: 1 },
+      { sourceChainId: "wormhole:999", destinationChainId: "1", volumeUsd: 5, transfers: 1, uniqueSenders: 1 },
+    ]);
+  });
+
+  it("should break volume down by asset symbol", () => {
+    expect(breakdown.assets).toEqual([
+      { symbol: "SOL", volumeUsd: 300, transfers: 1, uniqueSenders: 1 },
+      { symbol: "USDC", volumeUsd: 151, transfers: 3, uniqueSenders: 2 },
+      { symbol: "WETH", volumeUsd: 20, transfers: 1, uniqueSenders: 0 },
+      { symbol: null, volumeUsd: 5, transfers: 1, uniqueSenders: 1 },
+    ]);
+  });
+
+  it("should report every requested route in order, including idle ones", () => {
+    expect(breakdown.routes.map(({ route, ...stats }) => [route.source.chainId, stats])).toEqual([
+      ["1", { volumeUsd: 150, transfers: 2, uniqueSenders: 1 }],
+      ["137", { volumeUsd: 0, transfers: 0, uniqueSenders: 0 }],
+    ]);
+  });
+});
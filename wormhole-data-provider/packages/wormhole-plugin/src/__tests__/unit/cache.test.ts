@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { SwrCache } from "../../cache";
+
+const policy = { ttlMs: 1_000, staleMs: 4_000 };
+
+describe("SwrCache", () => {
+  let clock: number;
+
+  beforeEach(() => {
+    clock = 1_700_000_000_000;
+    vi.spyOn(Date, "now").mockImplementation(() => clock);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should compute on a miss and serve fresh values as hits", async () => {
+    const cache = new SwrCache();
+    const compute = vi.fn().mockResolvedValue("a");
+
+    const first = await cache.get("key", policy, compute);
+    clock += 500;
+    const second = await cache.get("key", policy, compute);
+
+    expect(first).toEqual({ value: "a", status: "miss", ageMs: 0 });
+    expect(second).toEqual({ value: "a", status: "hit", ageMs: 500 });
+    expect(compute).toHaveBeenCalledTimes(1);
+  });
+
+  it("should serve stale values while revalidating in the background", async () => {
+    const cache = new SwrCache();
+    await cache.get("key", policy, async () => "old");
+    clock += 2_000;
+
+    let finish!: (value: string) => void;
+    const compute = vi.fn(() => new Promise<string>((resolve) => { finish = resolve; }));
+    const stale = await cache.get("key", policy, compute);
+    // A second stale read joins the revalidation in flight
+    await cache.get("key", policy, compute);
+
+    expect(stale).toEqual({ value: "old", status: "stale", ageMs: 2_000 });
+    expect(compute).toHaveBeenCalledTimes(1);
+
+    finish("new");
+    await vi.waitFor(async () => {
+      expect(await cache.get("key", policy, compute)).toMatchObject({ value: "new", status: "hit" });
+    });
+  });
+
+  it("should keep the stale value when revalidation fails", async () => {
+    const cache = new SwrCache();
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    await cache.get("key", policy, async () => "old");
+    clock += 2_000;
+
+    await cache.get("key", policy, () => Promise.reject(new Error("HTTP 503")));
+    await vi.waitFor(() => expect(warn).toHaveBeenCalled());
+
+    expect(await cache.get("key", policy, async () => "new")).toMatchObject({ value: "old", status: "stale" });
+  });
+
+  it("should recompute values past the stale period before serving them", async () => {
+    const cache = new SwrCache();
+    await cache.get("key", policy, async () => "old");
+    clock += 5_000;
+
+    expect(await cache.get("key", policy, async () => "new")).toEqual({ value: "new", status: "miss", ageMs: 0 });
+  });
+
+  it("should share concurrent computations of a key", async () => {
+    const cache = new SwrCache();
+    const compute = vi.fn().mockResolvedValue("a");
+
+    await Promise.all([cache.get("key", policy, compute), cache.get("key", policy, compute)]);
+
+    expect(compute).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not cache failed computations", async () => {
+    const cache = new SwrCache();
+
+    await expect(cache.get("key", policy, () => Promise.reject(new Error("HTTP 503")))).rejects.toThrow("HTTP 503");
+    expect(await cache.get("key", policy, async () => "a")).toMatchObject({ value: "a", status: "miss" });
+  });
+
+  it("should evict the oldest entries beyond its capacity", async () => {
+    const cache = new SwrCache(2);
+    await cache.get("a", policy, async () => 1);
+    await cache.get("b", policy, async () => 2);
+    await cache.get("c", policy, async () => 3);
+
+    expect((await cache.get("a", policy, async () => 10)).status).toBe("miss");
+    expect((await cache.get("c", policy, async () => 30)).status).toBe("hit");
+  });
+});
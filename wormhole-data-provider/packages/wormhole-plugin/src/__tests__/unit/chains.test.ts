@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { CHAINS, chainFromWormholeId, formatChainId, isKnownChainId, resolveChain } from "../../chains";
+
+describe("resolveChain", () => {
+  it.each([
+    ["137"],
+    ["eip155:137"],
+    ["wormhole:5"],
+    ["polygon"],
+    ["Polygon"],
+    ["matic"],
+    [" 137 "],
+  ])("should resolve %j to Polygon", (chainId) => {
+    expect(resolveChain(chainId)?.wormholeId).toBe(5);
+  });
+
+  it("should treat bare numbers as EVM chain ids", () => {
+    expect(resolveChain("1")?.name).toBe("ethereum");
+    expect(resolveChain("wormhole:1")?.name).toBe("solana");
+  });
+
+  it("should resolve non-EVM chains by CAIP-2 id and name", () => {
+    expect(resolveChain("solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp")?.wormholeId).toBe(1);
+    expect(resolveChain("near")?.caip2).toBe("near:mainnet");
+  });
+
+  it("should return null for unknown chains", () => {
+    expect(resolveChain("999999999")).toBeNull();
+    expect(resolveChain("wormhole:9999")).toBeNull();
+    expect(resolveChain("eip155:999999999")).toBeNull();
+    expect(resolveChain("atlantis")).toBeNull();
+    expect(isKnownChainId("")).toBe(false);
+  });
+});
+
+describe("chain registry", () => {
+  it("should have unique identifiers in every scheme", () => {
+    const unique = (values: unknown[]) => new Set(values).size === values.length;
+
+    expect(unique(CHAINS.map((chain) => chain.wormholeId))).toBe(true);
+    expect(unique(CHAINS.map((chain) => chain.caip2))).toBe(true);
+    expect(unique(CHAINS.flatMap((chain) => [chain.name, ...(chain.aliases ?? [])]))).toBe(true);
+    expect(unique(CHAINS.flatMap((chain) => chain.evmChainId ?? []))).toBe(true);
+  });
+
+  it("should round-trip every chain through its canonical id", () => {
+    for (const chain of CHAINS) {
+      expect(resolveChain(formatChainId(chain))).toBe(chain);
+      expect(resolveChain(chain.caip2)).toBe(chain);
+      expect(resolveChain(`wormhole:${chain.wormholeId}`)).toBe(chain);
+      expect(chainFromWormholeId(chain.wormholeId)).toBe(chain);
+    }
+  });
+});
@@ -0,0 +1,158 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { OperationsCrawler } from "../../crawler";
+import { HttpClient } from "../../http";
+import { RateLimiter } from "../../limiter";
+import { type MockWormholescan, startMockWormholescan } from "../support/wormholescan-server";
+
+const HOUR_MS = 60 * 60 * 1000;
+const now = Date.now();
+
+const makeOperation = (id: string, hoursAgo: number, usdAmount = "100") => ({
+  id,
+  emitterChain: 2,
+  sourceChain: { chainId: 2, timestamp: new Date(now - hoursAgo * HOUR_MS).toISOString() },
+  data: { usdAmount },
+});
+
+describe("OperationsCrawler", () => {
+  let server: MockWormholescan;
+
+  const createCrawler = (maxPages?: number, pageSize?: number) =>
+    new OperationsCrawler(
+      new HttpClient({
+        baseUrl: server.baseUrl,
+        timeout: 5000,
+        maxRetries: 0,
+        limiter: new RateLimiter({ requestsPerSecond: 100 }),
+        fetchFn: server.fetch,
+      }),
+      maxPages,
+      pageSize
+    );
+
+  // Answer page n with the nth list, as when operations shift between requests
+  const servePages = (...pages: unknown[][]) =>
+    server.intercept((url) => ({
+      status: 200,
+      body: { operations: pages[Number(url.searchParams.get("page"))] ?? [] },
+    }));
+
+  beforeAll(async () => {
+    server = await startMockWormholescan();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.reset();
+  });
+
+  it("should page until it passes the window boundary", async () => {
+    server.serve(["a", "b", "c", "d", "e"].map((id, i) => makeOperation(id, i + 1)).concat(makeOperation("f", 30)));
+
+    const crawler = createCrawler(10, 2);
+    const result = await crawler.crawl(now - 24 * HOUR_MS);
+
+    expect(server.requests).toHaveLength(3);
+    expect(result.pagesFetched).toBe(3);
+    expect(result.reachedBoundary).toBe(true);
+    expect(result.operations.map((op) => op.id)).toEqual(["a", "b", "c", "d", "e"]);
+  });
+
+  it("should request pages in order and never exceed the max page size", async () => {
+    server.serve([makeOperation("a", 1)]);
+
+    const crawler = createCrawler(10, 500);
+    await crawler.crawl(now - HOUR_MS * 24);
+
+    const url = server.requests[0]!;
+    expect(url.pathname).toBe("/api/v1/operations");
+    expect(url.searchParams.get("page")).toBe("0");
+    expect(url.searchParams.get("pageSize")).toBe("100");
+    expect(url.searchParams.get("sortOrder")).toBe("DESC");
+  });
+
+  it("should continue back from a point in time", async () => {
+    server.serve(["a", "b", "c", "d"].map((id, i) => makeOperation(id, i + 1)));
+
+    const crawler = createCrawler(10, 2);
+    const result = await crawler.crawl(now - 24 * HOUR_MS, undefined, now - 2 * HOUR_MS);
+
+    expect(server.requests[0]!.searchParams.get("to")).toBe(new Date(now - 2 * HOUR_MS).toISOString());
+    expect(result.operations.map((op) => op.id)).toEqual(["b", "c", "d"]);
+    expect(result.reachedBoundary).toBe(true);
+  });
+
+  it("should deduplicate operations that shift between pages", async () => {
+    servePages(
+      [makeOperation("a", 1), makeOperation("b", 2)],
+      [makeOperation("b", 2), makeOperation("c", 3)]
+    );
+
+    const crawler = createCrawler(10, 2);
+    const result = await crawler.crawl(now - 24 * HOUR_MS);
+
+    expect(result.operations.map((op) => op.id)).toEqual(["a", "b", "c"]);
+  });
+
+  it("should report an unfinished crawl when maxPages is reached", async () => {
+    server.serve(Array.from({ length: 10 }, (_, i) => makeOperation(`op-${i}`, 1)));
+
+    const crawler = createCrawler(3, 2);
+    const result = await crawler.crawl(now - 24 * HOUR_MS);
+
+    expect(result.pagesFetched).toBe(3);
+    expect(result.reachedBoundary).toBe(false);
+    expect(result.operations).toHaveLength(6);
+  });
+
+  it("should skip and count malformed operations without ending the crawl early", async () => {
+    server.serve([makeOperation("a", 1), { id: "broken", emitterChain: "two" }, makeOperation("b", 2)]);
+
+    const crawler = createCrawler(10, 2);
+    const result = await crawler.crawl(now - 24 * HOUR_MS);
+
+    expect(result.pagesFetched).toBe(2);
+    expect(result.operations.map((op) => op.id)).toEqual(["a", "b"]);
+    expect(result.diagnostics.decoded).toBe(2);
+    expect(result.diagnostics.malformed).toBe(1);
+  });
+
+  it("should fail on a malformed page envelope", async () => {
+    server.intercept(() => ({ status: 200, body: { data: [] } }));
+
+    const crawler = createCrawler();
+
+    await expect(crawler.crawl(now - HOUR_MS)).rejects.toThrow("Unexpected operations page shape");
+  });
+
+  it("should fail on HTTP errors", async () => {
+    server.intercept(() => ({ status: 503 }));
+
+    const crawler = createCrawler();
+
+    await expect(crawler.crawl(now - HOUR_MS)).rejects.toThrow("HTTP 503");
+  });
+
+  describe("against the recorded operations", () => {
+    it("should page through every operation in the window", async () => {
+      const crawler = createCrawler(10, 25);
+      const since = Date.now() - 7 * 24 * HOUR_MS;
+
+      const result = await crawler.crawl(since);
+
+      const inWindow = server.operations.filter((op) => Date.parse(op.sourceChain.timestamp) >= since);
+      const pages = Math.floor(inWindow.length / 25) + 1;
+      expect(result.operations.map((op) => op.id)).toEqual(
+        inWindow.filter((op) => op.data.usdAmount !== "n/a").map((op) => op.id)
+      );
+      expect(result.diagnostics.malformed).toBe(1);
+      expect(result.pagesFetched).toBe(pages);
+      expect(server.requests.map((url) => Number(url.searchParams.get("page")))).toEqual(
+        Array.from({ length: pages }, (_, page) => page)
+      );
+    });
+  });
+});
@@ -0,0 +1,257 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { OperationsCrawler } from "../../crawler";
+import { OperationsDataset } from "../../dataset";
+import type { OperationsStore } from "../../store";
+import { emptyDiagnostics } from "../../wormholescan";
+
+const HOUR_MS = 60 * 60 * 1000;
+const now = Date.now();
+
+const operations = [
+  { id: "a", sourceChain: { timestamp: new Date(now - 1 * HOUR_MS).toISOString() } },
+  { id: "b", sourceChain: { timestamp: new Date(now - 5 * HOUR_MS).toISOString() } },
+  { id: "c", sourceChain: { timestamp: new Date(now - 20 * HOUR_MS).toISOString() } },
+];
+
+// A crawl result with these operations
+const crawled = (ops: unknown[], reachedBoundary = true) => ({
+  operations: ops,
+  pagesFetched: 1,
+  reachedBoundary,
+  diagnostics: emptyDiagnostics(),
+});
+
+describe("OperationsDataset", () => {
+  const crawl = vi.fn();
+  const crawler = { crawl } as unknown as OperationsCrawler;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    crawl.mockResolvedValue(crawled(operations));
+  });
+
+  it("should reuse a fresh window that reaches back far enough", async () => {
+    const dataset = new OperationsDataset(crawler, 60_000);
+
+    const first = await dataset.load(now - 24 * HOUR_MS);
+    const second = await dataset.load(now - 6 * HOUR_MS);
+
+    expect(crawl).toHaveBeenCalledTimes(1);
+    expect(first.operations).toHaveLength(3);
+    expect(second.operations.map((op) => op.id)).toEqual(["a", "b"]);
+  });
+
+  it("should share a single in-flight crawl between concurrent loads", async () => {
+    const dataset = new OperationsDataset(crawler, 60_000);
+
+    await Promise.all([
+      dataset.load(now - 24 * HOUR_MS),
+      dataset.load(now - 24 * HOUR_MS),
+      dataset.load(now - 2 * HOUR_MS),
+    ]);
+
+    expect(crawl).toHaveBeenCalledTimes(1);
+  });
+
+  it("should crawl again when the window does not reach back far enough", async () => {
+    const dataset = new OperationsDataset(crawler, 60_000);
+
+    await dataset.load(now - 24 * HOUR_MS);
+    await dataset.load(now - 7 * 24 * HOUR_MS);
+
+    expect(crawl).toHaveBeenCalledTimes(2);
+    // The first sync is fresh, so only the older operations are crawled
+    expect(crawl.mock.calls[1]).toEqual([now - 7 * 24 * HOUR_MS, expect.any(AbortSignal), now - 24 * HOUR_MS]);
+  });
+
+  it("should not crawl again within the TTL for a window it could not reach", async () => {
+    crawl.mockResolvedValueOnce(crawled(operations, false));
+    const dataset = new OperationsDataset(crawler, 60_000);
+
+    await dataset.load(now - 7 * 24 * HOUR_MS);
+    const window = await dataset.load(now - 7 * 24 * HOUR_MS);
+
+    expect(crawl).toHaveBeenCalledTimes(1);
+    expect(window.reachedBoundary).toBe(false);
+  });
+
+  it("should crawl again once the TTL has expired", async () => {
+    const dataset = new OperationsDataset(crawler, 0);
+
+    await dataset.load(now - 24 * HOUR_MS);
+    await dataset.load(now - 24 * HOUR_MS);
+
+    expect(crawl).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not cache failed crawls", async () => {
+    crawl.mockRejectedValueOnce(new Error("HTTP 503"));
+    const dataset = new OperationsDataset(crawler, 60_000);
+
+    await expect(dataset.load(now - HOUR_MS)).rejects.toThrow("HTTP 503");
+    await expect(dataset.load(now - HOUR_MS)).resolves.toMatchObject({ since: now - HOUR_MS });
+    expect(crawl).toHaveBeenCalledTimes(2);
+  });
+
+  it("should only crawl what is new since the last sync", async () => {
+    const dataset = new OperationsDataset(crawler, 0);
+
+    const first = await dataset.load(now - 24 * HOUR_MS);
+    crawl.mockResolvedValueOnce(crawled([{ id: "new", sourceChain: { timestamp: new Date().toISOString() } }]));
+    const second = await dataset.load(now - 24 * HOUR_MS);
+
+    // Back to the previous sync, less the overlap for late-indexed operations
+    expect(crawl.mock.calls[1]![0]).toBe(first.syncedAt - 10 * 60 * 1000);
+    expect(second.operations.map((op) => op.id)).toEqual(["new", "a", "b", "c"]);
+    expect(second.reachedBoundary).toBe(true);
+  });
+
+  it("should continue a crawl that stopped short from its oldest operation", async () => {
+    crawl.mockResolvedValueOnce(crawled(operations, false));
+    const dataset = new OperationsDataset(crawler, 0);
+    const first = await dataset.load(now - 7 * 24 * HOUR_MS);
+
+    const older = { id: "d", sourceChain: { timestamp: new Date(now - 50 * HOUR_MS).toISOString() } };
+    crawl.mockResolvedValueOnce(crawled([])).mockResolvedValueOnce(crawled([older]));
+    const second = await dataset.load(now - 7 * 24 * HOUR_MS);
+
+    // What is new since the first sync, then on back from its oldest operation
+    expect(crawl).toHaveBeenCalledTimes(3);
+    expect(crawl.mock.calls[2]).toEqual([now - 7 * 24 * HOUR_MS, expect.any(AbortSignal), now - 20 * HOUR_MS]);
+    expect(first.reachedBoundary).toBe(false);
+    expect(second.operations.map((op) => op.id)).toEqual(["a", "b", "c", "d"]);
+    expect(second.reachedBoundary).toBe(true);
+  });
+
+  it("should serve stored operations when a sync fails", async () => {
+    const dataset = new OperationsDataset(crawler, 0);
+    const synced = await dataset.load(now - 24 * HOUR_MS);
+
+    crawl.mockRejectedValueOnce(new Error("HTTP 503"));
+    const window = await dataset.load(now - 24 * HOUR_MS);
+
+    expect(window).toMatchObject({ stale: true, syncedAt: synced.syncedAt });
+    expect(window.operations).toHaveLength(3);
+  });
+
+  it("should keep the coverage of overlapping syncs whichever finishes last", async () => {
+    const finishes: Array<() => void> = [];
+    crawl.mockImplementation(() => new Promise((resolve) => {
+      finishes.push(() => resolve(crawled(operations)));
+    }));
+    const dataset = new OperationsDataset(crawler, 60_000);
+
+    const day = dataset.load(now - 24 * HOUR_MS);
+    await vi.waitFor(() => expect(finishes).toHaveLength(1));
+    // Reaches further back, so it cannot join the first sync
+    const week = dataset.load(now - 7 * 24 * HOUR_MS);
+    await vi.waitFor(() => expect(finishes).toHaveLength(2));
+
+    finishes[1]!();
+    await week;
+    finishes[0]!();
+    await day;
+
+    crawl.mockResolvedValue(crawled(operations));
+    await dataset.load(now - 7 * 24 * HOUR_MS);
+    expect(crawl).toHaveBeenCalledTimes(2);
+  });
+
+  describe("cancellation", () => {
+    // Crawls that run until they are finished or aborted
+    const hangingCrawl = () => {
+      const signals: AbortSignal[] = [];
+      let finish!: () => void;
+      crawl.mockImplementation((_since: number, signal: AbortSignal) => {
+        signals.push(signal);
+        return new Promise((resolve, reject) => {
+          finish = () => resolve(crawled(operations));
+          signal.addEventListener("abort", () => reject(signal.reason));
+        });
+      });
+      return { signals, finish: () => finish() };
+    };
+
+    it("should cancel a sync once every load waiting on it aborts", async () => {
+      const { signals } = hangingCrawl();
+      const dataset = new OperationsDataset(crawler, 60_000);
+      const first = new AbortController();
+      const second = new AbortController();
+
+      const loads = [dataset.load(now - HOUR_MS, first.signal), dataset.load(now - HOUR_MS, second.signal)];
+      await vi.waitFor(() => expect(signals).toHaveLength(1));
+
+      first.abort();
+      await expect(loads[0]).rejects.toThrow();
+      expect(signals[0]!.aborted).toBe(false);
+
+      second.abort();
+      await expect(loads[1]).rejects.toThrow();
+      expect(signals[0]!.aborted).toBe(true);
+      expect(dataset.syncHealth.lastSyncFailed).toBe(false);
+    });
+
+    it("should keep syncing for loads that did not abort", async () => {
+      const { signals, finish } = hangingCrawl();
+      const dataset = new OperationsDataset(crawler, 60_000);
+      const aborted = new AbortController();
+
+      const kept = dataset.load(now - 24 * HOUR_MS);
+      const load = dataset.load(now - 24 * HOUR_MS, aborted.signal);
+      await vi.waitFor(() => expect(signals).toHaveLength(1));
+      aborted.abort();
+
+      await expect(load).rejects.toThrow();
+      expect(signals[0]!.aborted).toBe(false);
+
+      finish();
+      expect((await kept).operations).toHaveLength(3);
+    });
+  });
+
+  describe("with a store", () => {
+    const read = vi.fn();
+    const write = vi.fn();
+    const store: OperationsStore = { read, write };
+
+    beforeEach(() => {
+      read.mockResolvedValue({
+        operations,
+        state: { coveredFrom: now - 48 * HOUR_MS, syncedAt: Date.now() },
+      });
+      write.mockResolvedValue(undefined);
+    });
+
+    it("should serve fresh stored operations without crawling", async () => {
+      const dataset = new OperationsDataset(crawler, 60_000, store);
+
+      const window = await dataset.load(now - 24 * HOUR_MS);
+
+      expect(crawl).not.toHaveBeenCalled();
+      expect(window.operations).toHaveLength(3);
+      expect(window.reachedBoundary).toBe(true);
+    });
+
+    it("should persist what each sync adds", async () => {
+      const dataset = new OperationsDataset(crawler, 0, store);
+      const added = [{ id: "new", sourceChain: { timestamp: new Date().toISOString() } }];
+      crawl.mockResolvedValueOnce(crawled(added));
+
+      await dataset.load(now - 24 * HOUR_MS);
+
+      expect(read).toHaveBeenCalledTimes(1);
+      const [written, state, retained] = write.mock.calls[0]!;
+      expect(written).toEqual(added);
+      // The incremental crawl met the stored range, so coverage keeps reaching back
+      expect(state.coveredFrom).toBe(now - 48 * HOUR_MS);
+      expect(retained).toHaveLength(4);
+    });
+
+    it("should not fail loads when persisting fails", async () => {
+      write.mockRejectedValueOnce(new Error("ENOSPC"));
+      const dataset = new OperationsDataset(crawler, 0, store);
+
+      await expect(dataset.load(now - 24 * HOUR_MS)).resolves.toMatchObject({ stale: false });
+    });
+  });
+});
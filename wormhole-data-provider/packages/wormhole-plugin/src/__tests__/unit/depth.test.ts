@@ -0,0 +1,120 @@
+import { describe, expect, it, vi } from "vitest";
+import { estimateDepth } from "../../depth";
+
+// Constant-product pool: out = y * x / (X + x); slippage vs. a tiny trade is x / (X + x)
+const pool = (reserveIn: bigint, reserveOut: bigint) => async (amountIn: bigint) =>
+  (reserveOut * amountIn) / (reserveIn + amountIn);
+
+describe("estimateDepth", () => {
+  it("should find where a slippage curve crosses each threshold", async () => {
+    const reserve = 10n ** 18n;
+    const [at50, at100] = await estimateDepth(pool(reserve, reserve), 10n ** 6n, [50, 100]);
+
+    // x / (X + x) = bps / 10000  =>  x = X * bps / (10000 - bps)
+    const expected50 = (reserve * 50n) / 9_950n;
+    const expected100 = (reserve * 100n) / 9_900n;
+
+    expect(at50!.maxAmountIn).toBeLessThanOrEqual(expected50);
+    expect(Number(at50!.maxAmountIn)).toBeGreaterThan(Number(expected50) * 0.998);
+    expect(at100!.maxAmountIn).toBeLessThanOrEqual(expected100);
+    expect(Number(at100!.maxAmountIn)).toBeGreaterThan(Number(expected100) * 0.998);
+    expect([at50!.limitedBy, at100!.limitedBy]).toEqual(["slippage", "slippage"]);
+  });
+
+  it("should accept arbitrary thresholds", async () => {
+    const reserve = 10n ** 24n;
+    const estimates = await estimateDepth(pool(reserve, reserve), 10n ** 12n, [1, 25, 300, 2500]);
+
+    expect(estimates.map((estimate) => estimate.slippageBps)).toEqual([1, 25, 300, 2500]);
+    for (let i = 1; i < estimates.length; i++) {
+      expect(estimates[i]!.maxAmountIn).toBeGreaterThan(estimates[i - 1]!.maxAmountIn!);
+    }
+  });
+
+  it("should measure slippage past fixed fees", async () => {
+    const reserve = 10n ** 18n;
+    const fee = 10n ** 9n;
+    const withFee = async (amountIn: bigint) => {
+      const out = await pool(reserve, reserve)(amountIn);
+      return out > fee ? out - fee : 0n;
+    };
+    // The reference amount does not cover the fee
+    const [at50] = await estimateDepth(withFee, 10n ** 6n, [50]);
+
+    const expected50 = (reserve * 50n) / 9_950n;
+    expect(at50!.maxAmountIn).toBeLessThanOrEqual(expected50);
+    expect(Number(at50!.maxAmountIn)).toBeGreaterThan(Number(expected50) * 0.998);
+  });
+
+  it("should not count fixed fees as slippage", async () => {
+    const estimates = await estimateDepth(
+      async (amountIn) => (amountIn > 5_000n ? amountIn - 5_000n : 0n),
+      1_000n,
+      [1, 50],
+      { maxDoublings: 10 }
+    );
+
+    expect(estimates).toEqual([
+      { slippageBps: 1, maxAmountIn: null, limitedBy: null },
+      { slippageBps: 50, maxAmountIn: null, limitedBy: null },
+    ]);
+  });
+
+  it("should bound depth by the largest amount the source quotes", async () => {
+    const limit = 5_000_000_000n;
+    const [estimate] = await estimateDepth(
+      async (amountIn) => (amountIn > limit ? null : amountIn - 1_000n),
+      1_000_000n,
+      [50]
+    );
+
+    expect(estimate!.limitedBy).toBe("transfer-limit");
+    expect(estimate!.maxAmountIn).toBeLessThanOrEqual(limit);
+    expect(Number(estimate!.maxAmountIn)).toBeGreaterThan(Number(limit) * 0.998);
+  });
+
+  it("should bound depth by whichever limit comes first", async () => {
+    const reserve = 10n ** 18n;
+    const limit = reserve / 1_000n;
+    const [at1, at100] = await estimateDepth(
+      async (amountIn) => (amountIn > limit ? null : pool(reserve, reserve)(amountIn)),
+      10n ** 6n,
+      [1, 100]
+    );
+
+    // 1bps of slippage comes at about reserve / 10000, before the limit; 100bps would come after it
+    expect(at1!.limitedBy).toBe("slippage");
+    expect(at1!.maxAmountIn).toBeLessThan(limit);
+    expect(at100!.limitedBy).toBe("transfer-limit");
+    expect(Number(at100!.maxAmountIn)).toBeGreaterThan(Number(limit) * 0.998);
+  });
+
+  it("should report no depth when the rate never degrades", async () => {
+    const [estimate] = await estimateDepth(async (amountIn) => amountIn, 1_000n, [50], { maxDoublings: 10 });
+
+    expect(estimate).toEqual({ slippageBps: 50, maxAmountIn: null, limitedBy: null });
+  });
+
+  it("should report no depth when no amount can be quoted", async () => {
+    const estimates = await estimateDepth(async () => null, 1_000n, [50, 100]);
+
+    expect(estimates).toEqual([
+      { slippageBps: 50, maxAmountIn: null, limitedBy: null },
+      { slippageBps: 100, maxAmountIn: null, limitedBy: null },
+    ]);
+  });
+
+  it("should report no depth when no amount covers the fees", async () => {
+    const [estimate] = await estimateDepth(async () => 0n, 1_000n, [50], { maxDoublings: 10 });
+
+    expect(estimate).toEqual({ slippageBps: 50, maxAmountIn: null, limitedBy: null });
+  });
+
+  it("should reuse quotes across thresholds", async () => {
+    const quoteAt = vi.fn(pool(10n ** 12n, 10n ** 12n));
+    await estimateDepth(quoteAt, 1_000n, [50, 50]);
+
+    const amounts = quoteAt.mock.calls.map(([amount]) => amount);
+    expect(new Set(amounts).size).toBe(amounts.length);
+  });
+});
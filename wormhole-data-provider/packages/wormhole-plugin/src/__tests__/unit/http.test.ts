@@ -0,0 +1,175 @@
+import { PluginConfigurationError } from "every-plugin";
+import { describe, expect, it, vi } from "vitest";
+import {
+  WormholeDecodeError,
+  WormholeRateLimitError,
+  WormholeTimeoutError,
+  WormholeUpstreamError,
+} from "../../errors";
+import { type FetchFn, HttpClient, backoffDelay, isRetryableStatus } from "../../http";
+import { RateLimiter } from "../../limiter";
+
+const jsonResponse = (status: number, body: unknown = {}, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers });
+
+const createClient = (fetchFn: FetchFn, maxRetries = 3) =>
+  new HttpClient({
+    baseUrl: "https://api.wormholescan.io/api/v1",
+    apiKey: "test-api-key",
+    timeout: 1000,
+    maxRetries,
+    limiter: new RateLimiter({ requestsPerSecond: 100 }),
+    initialDelayMs: 1,
+    maxDelayMs: 5,
+    fetchFn,
+  });
+
+describe("HttpClient", () => {
+  it("should build the URL from path and query", async () => {
+    const fetchFn = vi.fn().mockResolvedValue(jsonResponse(200, { operations: [] }));
+
+    await createClient(fetchFn).getJson("/operations", { page: 2, pageSize: 100, sortOrder: undefined });
+
+    expect(fetchFn.mock.calls[0][0]).toBe("https://api.wormholescan.io/api/v1/operations?page=2&pageSize=100");
+    expect(fetchFn.mock.calls[0][1].headers.Authorization).toBe("Bearer test-api-key");
+  });
+
+  it("should retry 5xx responses until one succeeds", async () => {
+    const fetchFn = vi.fn()
+      .mockResolvedValueOnce(jsonResponse(502))
+      .mockResolvedValueOnce(jsonResponse(503))
+      .mockResolvedValueOnce(jsonResponse(200, { ok: true }));
+
+    await expect(createClient(fetchFn).getJson("/operations")).resolves.toEqual({ ok: true });
+    expect(fetchFn).toHaveBeenCalledTimes(3);
+  });
+
+  it("should retry network errors", async () => {
+    const fetchFn = vi.fn()
+      .mockRejectedValueOnce(new TypeError("fetch failed"))
+      .mockResolvedValueOnce(jsonResponse(200, { ok: true }));
+
+    await expect(createClient(fetchFn).getJson("/operations")).resolves.toEqual({ ok: true });
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  it("should give up after maxRetries", async () => {
+    const fetchFn = vi.fn().mockResolvedValue(jsonResponse(500));
+
+    await expect(createClient(fetchFn, 2).getJson("/operations")).rejects.toBeInstanceOf(WormholeUpstreamError);
+    expect(fetchFn).toHaveBeenCalledTimes(3);
+  });
+
+  it("should not retry client errors", async () => {
+    const fetchFn = vi.fn().mockResolvedValue(jsonResponse(404));
+
+    await expect(createClient(fetchFn).getJson("/operations")).rejects.toThrow("HTTP 404");
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+  });
+
+  it("should surface authentication failures as configuration errors", async () => {
+    const fetchFn = vi.fn().mockResolvedValue(jsonResponse(401));
+
+    await expect(createClient(fetchFn).getJson("/operations")).rejects.toBeInstanceOf(PluginConfigurationError);
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+  });
+
+  it("should wait for Retry-After before retrying a 429", async () => {
+    const fetchFn = vi.fn()
+      .mockResolvedValueOnce(jsonResponse(429, {}, { "Retry-After": "0.05" }))
+      .mockResolvedValueOnce(jsonResponse(200, { ok: true }));
+
+    const startedAt = Date.now();
+    await expect(createClient(fetchFn).getJson("/operations")).resolves.toEqual({ ok: true });
+
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(45);
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  it("should fail with a rate limit error carrying Retry-After", async () => {
+    const fetchFn = vi.fn().mockResolvedValue(jsonResponse(429, {}, { "Retry-After": "42" }));
+    const client = createClient(fetchFn, 0);
+
+    const request = client.getJson("/operations");
+
+    await expect(request).rejects.toBeInstanceOf(WormholeRateLimitError);
+    await expect(request).rejects.toMatchObject({ retryAfterMs: 42_000 });
+    expect(client.limiter.stats.pausedForMs).toBeGreaterThan(40_000);
+  });
+
+  it("should fail with a decode error on invalid JSON", async () => {
+    const fetchFn = vi.fn().mockResolvedValue(new Response("<html>", { status: 200 }));
+
+    await expect(createClient(fetchFn).getJson("/operations")).rejects.toBeInstanceOf(WormholeDecodeError);
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+  });
+
+  it("should abort attempts that exceed the timeout", async () => {
+    const fetchFn = vi.fn((_url: string, init?: RequestInit) =>
+      new Promise<Response>((_resolve, reject) => {
+        init?.signal?.addEventListener("abort", () => reject(init.signal?.reason));
+      })
+    );
+
+    await expect(
+      createClient(fetchFn, 1).getJson("/operations", {}, { timeout: 10 })
+    ).rejects.toBeInstanceOf(WormholeTimeoutError);
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  it("should retry a body that outlasts the timeout as a timeout", async () => {
+    // Headers arrive straight away, the body never does
+    const fetchFn = vi.fn(async (_url: string, init?: RequestInit) =>
+      new Response(
+        new ReadableStream({
+          start(controller) {
+            init?.signal?.addEventListener("abort", () => controller.error(init.signal?.reason));
+          },
+        }),
+        { status: 200 }
+      )
+    );
+
+    await expect(
+      createClient(fetchFn, 1).getJson("/operations", {}, { timeout: 10 })
+    ).rejects.toBeInstanceOf(WormholeTimeoutError);
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not retry once the caller aborts", async () => {
+    const controller = new AbortController();
+    const fetchFn = vi.fn(async () => {
+      controller.abort(new Error("client went away"));
+      throw new Error("aborted");
+    });
+
+    await expect(
+      createClient(fetchFn).getJson("/operations", {}, { signal: controller.signal })
+    ).rejects.toThrow();
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("backoffDelay", () => {
+  it("should grow exponentially up to the cap", () => {
+    const max = () => 0.999999;
+    expect(backoffDelay(0, 1000, 10_000, max)).toBe(999);
+    expect(backoffDelay(2, 1000, 10_000, max)).toBe(3999);
+    expect(backoffDelay(8, 1000, 10_000, max)).toBe(9999);
+  });
+
+  it("should apply full jitter", () => {
+    expect(backoffDelay(3, 1000, 10_000, () => 0)).toBe(0);
+    expect(backoffDelay(3, 1000, 10_000, () => 0.5)).toBe(4000);
+  });
+});
+
+describe("isRetryableStatus", () => {
+  it("should classify 429 and 5xx as retryable", () => {
+    expect(isRetryableStatus(429)).toBe(true);
+    expect(isRetryableStatus(500)).toBe(true);
+    expect(isRetryableStatus(503)).toBe(true);
+    expect(isRetryableStatus(400)).toBe(false);
+    expect(isRetryableStatus(404)).toBe(false);
+  });
+});
@@ -0,0 +1,179 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { RateLimiter, parseRetryAfter } from "../../limiter";
+
+const deferred = () => {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => {
+    resolve = r;
+  });
+  return { promise, resolve };
+};
+
+describe("RateLimiter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should allow a burst and then refill at the sustained rate", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 2, burst: 3 });
+    const started: number[] = [];
+
+    for (let i = 0; i < 5; i++) {
+      limiter.schedule(async () => {
+        started.push(i);
+      });
+    }
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([0, 1, 2]);
+
+    await vi.advanceTimersByTimeAsync(499);
+    expect(started).toEqual([0, 1, 2]);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(started).toEqual([0, 1, 2, 3]);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(started).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it("should cap the number of requests in flight", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 100, burst: 100, maxConcurrency: 2 });
+    const gates = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+
+    gates.forEach((gate, i) => {
+      limiter.schedule(async () => {
+        started.push(i);
+        await gate.promise;
+      });
+    });
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([0, 1]);
+    expect(limiter.stats.inFlight).toBe(2);
+    expect(limiter.stats.queued).toBe(1);
+
+    gates[1]!.resolve();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([0, 1, 2]);
+  });
+
+  it("should serve waiters in FIFO order", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 1, burst: 1 });
+    const started: string[] = [];
+
+    for (const name of ["a", "b", "c", "d"]) {
+      limiter.schedule(async () => {
+        started.push(name);
+      });
+    }
+
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(started).toEqual(["a", "b", "c", "d"]);
+  });
+
+  it("should stall the queue while paused for Retry-After", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 10, burst: 10 });
+    const started: number[] = [];
+
+    limiter.pauseFor(2000);
+    limiter.schedule(async () => {
+      started.push(1);
+    });
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(started).toEqual([]);
+    expect(limiter.stats.pausedForMs).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(started).toEqual([1]);
+  });
+
+  it("should report the share of capacity in use as saturation", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 10, burst: 10, maxConcurrency: 4 });
+    const gate = deferred();
+    expect(limiter.stats.saturation).toBe(0);
+
+    for (let i = 0; i < 2; i++) {
+      limiter.schedule(() => gate.promise);
+    }
+    await vi.advanceTimersByTimeAsync(0);
+    // Half the concurrency slots, a fifth of the tokens
+    expect(limiter.stats.saturation).toBe(0.5);
+
+    for (let i = 0; i < 3; i++) {
+      limiter.schedule(() => gate.promise);
+    }
+    await vi.advanceTimersByTimeAsync(0);
+    expect(limiter.stats.queued).toBe(1);
+    expect(limiter.stats.saturation).toBe(1);
+
+    gate.resolve();
+  });
+
+  it("should release the slot when a task fails", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 10, maxConcurrency: 1 });
+
+    await expect(
+      limiter.schedule(async () => {
+        throw new Error("boom");
+      })
+    ).rejects.toThrow("boom");
+
+    expect(limiter.stats.inFlight).toBe(0);
+    await expect(limiter.schedule(async () => "ok")).resolves.toBe("ok");
+  });
+
+  it("should drop waiters whose signal aborts without using a token", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 10, burst: 10 });
+    const controller = new AbortController();
+    const started: string[] = [];
+
+    limiter.pauseFor(2000);
+    const cancelled = limiter.schedule(async () => {
+      started.push("cancelled");
+    }, controller.signal);
+    limiter.schedule(async () => {
+      started.push("live");
+    });
+    expect(limiter.stats.queued).toBe(2);
+
+    controller.abort(new Error("client went away"));
+    await expect(cancelled).rejects.toThrow("client went away");
+    expect(limiter.stats.queued).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(started).toEqual(["live"]);
+    expect(limiter.stats.availableTokens).toBe(9);
+  });
+
+  it("should not queue a request whose signal already aborted", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 10 });
+    const task = vi.fn(async () => "ok");
+
+    await expect(limiter.schedule(task, AbortSignal.abort(new Error("gone")))).rejects.toThrow("gone");
+    expect(task).not.toHaveBeenCalled();
+    expect(limiter.stats.queued).toBe(0);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("should parse delta-seconds", () => {
+    expect(parseRetryAfter("30")).toBe(30_000);
+  });
+
+  it("should parse HTTP dates relative to now", () => {
+    const now = Date.parse("2024-01-01T00:00:00Z");
+    expect(parseRetryAfter("Mon, 01 Jan 2024 00:00:10 GMT", now)).toBe(10_000);
+  });
+
+  it("should return null for missing or invalid values", () => {
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter("soon")).toBeNull();
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { buildProvenance, sampleConfidence } from "../../provenance";
+import type { WormholescanOperationType } from "../../wormholescan";
+
+const at = (iso: string): WormholescanOperationType => ({ id: iso, emitterChain: 2, sourceChain: { chainId: 2, timestamp: iso } });
+
+describe("buildProvenance", () => {
+  it("should cover the time range of its samples", () => {
+    const provenance = buildProvenance(
+      "wormholescan-operations",
+      [at("2024-05-01T12:00:00.000Z"), at("2024-05-01T08:00:00.000Z"), at("2024-05-01T10:00:00.000Z")],
+      { confidence: 0.75 }
+    );
+
+    expect(provenance).toEqual({
+      source: "wormholescan-operations",
+      sampleSize: 3,
+      coveredFrom: "2024-05-01T08:00:00.000Z",
+      coveredTo: "2024-05-01T12:00:00.000Z",
+      fallbackUsed: false,
+      confidence: 0.75,
+    });
+  });
+
+  it("should report no coverage without samples", () => {
+    expect(buildProvenance("assumed", [], { fallbackUsed: true, confidence: 0 })).toMatchObject({
+      sampleSize: 0,
+      coveredFrom: null,
+      coveredTo: null,
+      fallbackUsed: true,
+      confidence: 0,
+    });
+  });
+
+  it("should prefer an explicit range and clamp confidence", () => {
+    const provenance = buildProvenance("wormholescan-operations", [], {
+      coveredFrom: Date.parse("2024-05-01T00:00:00.000Z"),
+      coveredTo: Date.parse("2024-05-02T00:00:00.000Z"),
+      confidence: 1.7,
+    });
+
+    expect(provenance.coveredFrom).toBe("2024-05-01T00:00:00.000Z");
+    expect(provenance.coveredTo).toBe("2024-05-02T00:00:00.000Z");
+    expect(provenance.confidence).toBe(1);
+  });
+});
+
+describe("sampleConfidence", () => {
+  it("should grow linearly up to the target", () => {
+    expect(sampleConfidence(0, 20)).toBe(0);
+    expect(sampleConfidence(5, 20)).toBe(0.25);
+    expect(sampleConfidence(40, 20)).toBe(1);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import { resolveChain } from "../../chains";
+import {
+  AssumedFeeQuoteSource,
+  DEFAULT_FEE_MODEL,
+  FeeModelQuoteSource,
+  HistoricalQuoteSource,
+  type QuoteRequest,
+  sourceUsdPrice,
+} from "../../quotes";
+import type { WormholescanOperationType } from "../../wormholescan";
+
+const usdc = (chainId: string, assetId: string, decimals = 6) => ({ chainId, assetId, symbol: "USDC", decimals });
+
+const request = (overrides: Partial<QuoteRequest> = {}): QuoteRequest => ({
+  source: usdc("1", "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48"),
+  destination: usdc("42161", "0xaf88d065e77c8cC2239327C5EDb3A432268e5831"),
+  sourceChain: resolveChain("ethereum")!,
+  destinationChain: resolveChain("arbitrum")!,
+  amountIn: 1_000_000_000n, // 1,000 USDC
+  operations: [],
+  ...overrides,
+});
+
+const transfer = (
+  symbol: string,
+  tokenAmount: string,
+  usdAmount: string,
+  amount?: string,
+  fee?: string
+): WormholescanOperationType => ({
+  id: `${symbol}-${tokenAmount}-${amount}`,
+  emitterChain: 2,
+  content: { standarizedProperties: { amount, fee } },
+  sourceChain: { chainId: 2, timestamp: new Date().toISOString() },
+  data: { symbol, tokenAmount, usdAmount },
+});
+
+describe("FeeModelQuoteSource", () => {
+  const source = new FeeModelQuoteSource();
+
+  it("should quote native USDC between CCTP chains with destination gas only", async () => {
+    const quote = await source.quote(request());
+
+    // $0.05 Arbitrum gas at $1/USDC
+    expect(quote).toEqual({
+      source: "fee-model",
+      protocol: "cctp",
+      amountOut: 999_950_000n,
+      feesUsd: 0.05,
+      samples: [],
+      confidence: 0.5, // stablecoin price without transfers
+    });
+  });
+
+  it("should quote other tokens through Portal, dropping dust below 8 decimals", async () => {
+    const weth = { chainId: "1", assetId: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2", symbol: "WETH", decimals: 18 };
+    const quote = await source.quote(request({
+      source: weth,
+      destination: { ...weth, chainId: "137", assetId: "0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619" },
+      destinationChain: resolveChain("polygon")!,
+      amountIn: 1_000_000_000_000_000_123n, // 1 WETH + dust
+      operations: [transfer("WETH", "2", "5400")],
+    }));
+
+    const feesUsd = DEFAULT_FEE_MODEL.relayerFeeUsd.portal + DEFAULT_FEE_MODEL.destinationGasUsd[5]!;
+    const feeUnits = BigInt(Math.ceil((feesUsd / 2700) * 1e18));
+    expect(quote).toEqual({
+      source: "fee-model",
+      protocol: "portal",
+      amountOut: 1_000_000_000_000_000_000n - feeUnits,
+      feesUsd,
+      samples: [expect.objectContaining({ id: "WETH-2-undefined" })],
+      confidence: 0.54,
+    });
+  });
+
+  it("should quote NTT tokens as native transfers", async () => {
+    const w = { chainId: "solana", assetId: "85VBFQZC9TZkfaptBWjvUw7YbZjy52A6mjtPGjstQAmQ", symbol: "W", decimals: 6 };
+    const quote = await source.quote(request({
+      source: w,
+      destination: { ...w, chainId: "1", assetId: "0xB0fFa8000886e57F86dd5264b9582b2Ad87b2b91", decimals: 18 },
+      sourceChain: resolveChain("solana")!,
+      destinationChain: resolveChain("ethereum")!,
+      amountIn: 10_000_000_000n, // 10,000 W
+      operations: [transfer("W", "100", "26")],
+    }));
+
+    expect(quote?.protocol).toBe("ntt");
+    expect(quote?.feesUsd).toBeCloseTo(2.6);
+    expect(quote?.amountOut).toBe(9_990_000_000_000_000_000_000n);
+  });
+
+  it("should return nothing for amounts smaller than the fees", async () => {
+    const quote = await source.quote(request({ destinationChain: resolveChain("ethereum")!, amountIn: 1_000n }));
+    expect(quote?.amountOut).toBe(0n);
+  });
+
+  it("should decline to quote transfers above the protocol limit", async () => {
+    expect(await source.quote(request({ amountIn: 1_000_000_000_000n }))).not.toBeNull();
+    expect(await source.quote(request({ amountIn: 1_000_000_000_001n }))).toBeNull();
+  });
+
+  it("should decline to quote tokens without a USD price", async () => {
+    const unknown = { chainId: "1", assetId: "0x0000000000000000000000000000000000000001", symbol: "MYST", decimals: 18 };
+    expect(await source.quote(request({ source: unknown, destination: unknown }))).toBeNull();
+  });
+});
+
+describe("HistoricalQuoteSource", () => {
+  it("should apply the mean arrived fraction of recent transfers", async () => {
+    const quote = await new HistoricalQuoteSource().quote(request({
+      operations: [
+        transfer("USDC", "1", "1", "100000000", "100000"),
+        transfer("USDC", "2", "2", "200000000", "600000"),
+      ],
+    }));
+
+    expect(quote).toMatchObject({ source: "historical", protocol: null, amountOut: 998_000_000n, feesUsd: 2 });
+    expect(quote?.samples).toHaveLength(2);
+    expect(quote?.confidence).toBeCloseTo(0.16);
+  });
+
+  it("should decline without usable transfers", async () => {
+    expect(await new HistoricalQuoteSource().quote(request())).toBeNull();
+  });
+});
+
+describe("AssumedFeeQuoteSource", () => {
+  it("should apply a flat fee", async () => {
+    const quote = await new AssumedFeeQuoteSource(50).quote(request());
+    expect(quote).toEqual({
+      source: "assumed",
+      protocol: null,
+      amountOut: 995_000_000n,
+      feesUsd: 5,
+      samples: [],
+      confidence: 0,
+    });
+  });
+});
+
+describe("sourceUsdPrice", () => {
+  it("should only price from transfers of the source token", () => {
+    const operations = [transfer("WETH", "1", "3000"), transfer("USDC", "10", "10.1")];
+    const price = sourceUsdPrice({ source: usdc("1", "0x"), operations });
+
+    expect(price?.usd).toBeCloseTo(1.01);
+    expect(price?.samples).toEqual([operations[1]]);
+  });
+});
@@ -0,0 +1,111 @@
+import { FastCheck as fc } from "every-plugin/effect";
+import { describe, expect, it } from "vitest";
+import {
+  RATE_DECIMALS,
+  RATE_SCALE,
+  applyRate,
+  effectiveRate,
+  formatUnits,
+  meanRate,
+  parseInteger,
+  ratioOf,
+} from "../../rates";
+
+const decimals = fc.integer({ min: 0, max: 24 });
+// Up to 10^30 smallest units: more than any 18-decimal notional we quote
+const amount = fc.bigInt({ min: 1n, max: 10n ** 30n });
+// Rates between 0.5 and 1 (fees up to 50%)
+const rate = fc.bigInt({ min: RATE_SCALE / 2n, max: RATE_SCALE });
+
+describe("rate math", () => {
+  it("should convert exactly between decimals at a rate of 1", () => {
+    fc.assert(
+      fc.property(amount, decimals, decimals, (amountIn, source, destination) => {
+        const amountOut = applyRate(amountIn, RATE_SCALE, source, destination);
+
+        if (destination >= source) {
+          expect(amountOut).toBe(amountIn * 10n ** BigInt(destination - source));
+          expect(applyRate(amountOut, RATE_SCALE, destination, source)).toBe(amountIn);
+        } else {
+          expect(amountOut).toBe(amountIn / 10n ** BigInt(source - destination));
+        }
+      })
+    );
+  });
+
+  it("should never quote more than the rate gives", () => {
+    fc.assert(
+      fc.property(amount, rate, decimals, decimals, (amountIn, r, source, destination) => {
+        const amountOut = applyRate(amountIn, r, source, destination);
+        const scale = RATE_SCALE * 10n ** BigInt(source);
+
+        // amountOut is the floor of amountIn * r * 10^destination / scale
+        expect(amountOut * scale).toBeLessThanOrEqual(amountIn * r * 10n ** BigInt(destination));
+        expect((amountOut + 1n) * scale).toBeGreaterThan(amountIn * r * 10n ** BigInt(destination));
+      })
+    );
+  });
+
+  it("should be monotonic in the amount in", () => {
+    fc.assert(
+      fc.property(amount, amount, rate, decimals, decimals, (a, b, r, source, destination) => {
+        const [small, large] = a <= b ? [a, b] : [b, a];
+        expect(applyRate(small, r, source, destination)).toBeLessThanOrEqual(applyRate(large, r, source, destination));
+      })
+    );
+  });
+
+  it("should report the applied rate as the decimal-normalized effective rate", () => {
+    fc.assert(
+      fc.property(rate, decimals, decimals, fc.integer({ min: 1, max: 1_000_000 }), (r, source, destination, units) => {
+        // Large enough that flooring to destination units is negligible
+        const amountIn = BigInt(units) * 10n ** BigInt(source + 12);
+        const amountOut = applyRate(amountIn, r, source, destination);
+
+        expect(amountOut.toString()).toMatch(/^\d+$/);
+        expect(effectiveRate(amountIn, amountOut, source, destination)).toBeCloseTo(
+          Number(formatUnits(r, RATE_DECIMALS)),
+          9
+        );
+      })
+    );
+  });
+
+  it("should keep 18-decimal amounts exact", () => {
+    const amountIn = 123_456_789_123_456_789_123n; // 123456.789... WETH
+    const amountOut = applyRate(amountIn, (RATE_SCALE * 999n) / 1000n, 18, 18);
+
+    expect(amountOut).toBe(123_333_332_334_333_332_333n);
+    expect(effectiveRate(amountIn, amountOut, 18, 18)).toBe(0.999);
+  });
+
+  it("should normalize effective rates across mixed decimals", () => {
+    // 1 USDC (6 decimals) -> 0.995 USDC on a chain where it has 18 decimals
+    expect(applyRate(1_000_000n, (RATE_SCALE * 995n) / 1000n, 6, 18)).toBe(995_000_000_000_000_000n);
+    expect(effectiveRate(1_000_000n, 995_000_000_000_000_000n, 6, 18)).toBe(0.995);
+  });
+});
+
+describe("rate helpers", () => {
+  it("should round-trip ratios of equal amounts", () => {
+    fc.assert(fc.property(amount, (sent) => ratioOf(sent, sent) === RATE_SCALE));
+  });
+
+  it("should format smallest units", () => {
+    expect(formatUnits(1_500_000n, 6)).toBe("1.5");
+    expect(formatUnits(5n, 6)).toBe("0.000005");
+    expect(formatUnits(42n, 0)).toBe("42");
+  });
+
+  it("should parse only integer amounts", () => {
+    expect(parseInteger("150000000")).toBe(150_000_000n);
+    expect(parseInteger("1.5")).toBeNull();
+    expect(parseInteger("")).toBeNull();
+    expect(parseInteger(null)).toBeNull();
+  });
+
+  it("should average rates", () => {
+    expect(meanRate([])).toBeNull();
+    expect(meanRate([RATE_SCALE, RATE_SCALE / 2n])).toBe((RATE_SCALE * 3n) / 4n);
+  });
+});
@@ -1,9 +1,12 @@
-import { Effect } from "every-plugin/effect";
-import { describe, expect, it, vi, beforeEach } from "vitest";
-import { WormholeService } from "../../service";
-
-// Mock fetch globally
-global.fetch = vi.fn();
+import { Effect, Exit, Fiber, Stream } from "every-plugin/effect";
+import { afterAll, beforeAll, describe, expect, it, vi, beforeEach } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { HistoricalQuoteSource, type QuoteSource } from "../../quotes";
+import { WormholeService, type WormholeServiceOptions } from "../../service";
+import { FileOperationsStore } from "../../store";
+import { type FixtureOperation, type MockWormholescan, startMockWormholescan } from "../support/wormholescan-server";
 
 // Mock route for testing
 const mockRoute = {
@@ -22,25 +25,36 @@ const mockRoute = {
 };
 
 describe("WormholeService", () => {
+  let server: MockWormholescan;
   let service: WormholeService;
 
+  // Served by the local Wormholescan mock, with maxRetries=0 to avoid retry delays
+  const createService = (options: WormholeServiceOptions = {}) =>
+    new WormholeService(server.baseUrl, "test-api-key", 5000, 10, 0, { transport: server.fetch, ...options });
+
+  beforeAll(async () => {
+    server = await startMockWormholescan();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
   beforeEach(() => {
-    // Use maxRetries=0 for tests to avoid retry delays
-    service = new WormholeService(
-      "https://api.wormhole.com",
-      "test-api-key",
-      5000,
-      10,
-      0 // No retries in tests to avoid timeout
-    );
-    vi.clearAllMocks();
+    server.reset();
+    service = createService();
   });
 
   describe("getSnapshot", () => {
-    it("should return complete snapshot structure", async () => {
-      // Mock API responses with fallback data
-      (global.fetch as any).mockRejectedValue(new Error("API unavailable"));
+    const hour = 60 * 60 * 1000;
+
+    // Sum of the decodable fixture transfers in the last `ms`
+    const volumeSince = (ms: number, filter: (op: FixtureOperation) => boolean = () => true) =>
+      server.operations
+        .filter((op) => Date.parse(op.sourceChain.timestamp) >= Date.now() - ms && filter(op))
+        .reduce((sum, op) => sum + (Number(op.data.usdAmount) || 0), 0);
 
+    it("should return complete snapshot structure", async () => {
       const result = await Effect.runPromise(
         service.getSnapshot({
           routes: [mockRoute],
@@ -59,12 +73,10 @@ describe("WormholeService", () => {
       expect(Array.isArray(result.volumes)).toBe(true);
       expect(Array.isArray(result.rates)).toBe(true);
       expect(Array.isArray(result.liquidity)).toBe(true);
-      expect(Array.isArray(result.listedAssets.assets)).toBe(true);
+      expect(Array.isArray(result.listedAssets!.assets)).toBe(true);
     });
 
     it("should return volumes for requested time windows", async () => {
-      (global.fetch as any).mockRejectedValue(new Error("API unavailable"));
-
       const result = await Effect.runPromise(
         service.getSnapshot({
           routes: [mockRoute],
@@ -82,8 +94,6 @@ describe("WormholeService", () => {
     });
 
     it("should generate rates for all route/notional combinations", async () => {
-      (global.fetch as any).mockRejectedValue(new Error("API unavailable"));
-
       const result = await Effect.runPromise(
         service.getSnapshot({
           routes: [mockRoute],
@@ -108,8 +118,6 @@ describe("WormholeService", () => {
     });
 
     it("should provide liquidity at 50bps and 100bps thresholds", async () => {
-      (global.fetch as any).mockRejectedValue(new Error("API unavailable"));
-
       const result = await Effect.runPromise(
         service.getSnapshot({
           routes: [mockRoute],
@@ -131,15 +139,14 @@ describe("WormholeService", () => {
 
       // Verify threshold structure
       thresholds.forEach(threshold => {
-        expect(threshold.maxAmountIn).toBeTypeOf("string");
-        expect(parseInt(threshold.maxAmountIn)).toBeGreaterThan(0);
+        // The fee model's quotes do not slip, but stop at the protocol's transfer limit
+        expect(threshold.maxAmountIn).toMatch(/^[1-9]\d*$/);
+        expect(threshold.limitedBy).toBe("transfer-limit");
         expect(threshold.slippageBps).toBeTypeOf("number");
       });
     });
 
     it("should return list of supported assets", async () => {
-      (global.fetch as any).mockRejectedValue(new Error("API unavailable"));
-
       const result = await Effect.runPromise(
         service.getSnapshot({
           routes: [mockRoute],
@@ -148,10 +155,10 @@ describe("WormholeService", () => {
         })
       );
 
-      expect(result.listedAssets.assets.length).toBeGreaterThan(0);
+      expect(result.listedAssets!.assets.length).toBeGreaterThan(0);
 
       // Verify asset structure
-      result.listedAssets.assets.forEach(asset => {
+      result.listedAssets!.assets.forEach(asset => {
         expect(asset.chainId).toBeTypeOf("string");
         expect(asset.assetId).toBeTypeOf("string");
         expect(asset.symbol).toBeTypeOf("string");
@@ -159,12 +166,10 @@ describe("WormholeService", () => {
         expect(asset.decimals).toBeGreaterThanOrEqual(0);
       });
 
-      expect(result.listedAssets.measuredAt).toBeTypeOf("string");
+      expect(result.listedAssets!.measuredAt).toBeTypeOf("string");
     });
 
     it("should handle multiple routes correctly", async () => {
-      (global.fetch as any).mockRejectedValue(new Error("API unavailable"));
-
       const secondRoute = {
         source: {
           chainId: "42161",
@@ -194,78 +199,948 @@ describe("WormholeService", () => {
     });
 
     it("should handle API success responses correctly", async () => {
-      // Mock successful API responses
-      (global.fetch as any)
-        .mockResolvedValueOnce({
-          ok: true,
-          json: async () => ({ volumeUsd: 10000000 }),
-        })
-        .mockResolvedValueOnce({
-          ok: true,
-          json: async () => ({
-            amountOut: "990000",
-            fee: 1000,
-          }),
-        })
-        .mockResolvedValueOnce({
-          ok: true,
-          json: async () => ({
-            amountOut: "985000",
-            fee: 1500,
-          }),
-        })
-        .mockResolvedValueOnce({
-          ok: true,
-          json: async () => ({
-            assets: [
-              {
-                chainId: "1",
-                assetId: "0xA0b86a33E6442e082877a094f204b01BF645Fe0",
-                symbol: "USDC",
-                decimals: 6,
-              },
-            ],
-          }),
-        });
-
       const result = await Effect.runPromise(
         service.getSnapshot({
           routes: [mockRoute],
           notionals: ["1000000"],
-          includeWindows: ["24h"]
+          includeWindows: ["1h", "24h", "7d"]
+        })
+      );
+
+      expect(result.complete).toBe(true);
+      expect(result.volumes.map((volume) => volume.volumeUsd)).toEqual([
+        expect.closeTo(volumeSince(hour), 6),
+        expect.closeTo(volumeSince(24 * hour), 6),
+        expect.closeTo(volumeSince(7 * 24 * hour), 6),
+      ]);
+      // Crawled across both fixture pages, skipping the malformed record
+      expect(server.requests.map((url) => url.searchParams.get("page"))).toEqual(["0", "1"]);
+      expect(result.diagnostics).toMatchObject({ operationsMalformed: 1 });
+      expect(result.rates).toHaveLength(1);
+      expect(result.listedAssets!.assets.length).toBeGreaterThan(0);
+    });
+
+    it("should break volume down by the route's flow", async () => {
+      const route = {
+        source: { chainId: "1", assetId: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48", symbol: "USDC", decimals: 6 },
+        destination: { chainId: "137", assetId: "0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359", symbol: "USDC", decimals: 6 },
+      };
+
+      const result = await Effect.runPromise(
+        service.getSnapshot({ routes: [route], notionals: ["1000000"], includeWindows: ["7d"], includeBreakdown: true })
+      );
+
+      const flow = (op: FixtureOperation) =>
+        op.content.standarizedProperties.fromChain === 2 &&
+        op.content.standarizedProperties.toChain === 5 &&
+        op.data.symbol === "USDC";
+      expect(result.volumes[0]!.breakdown!.routes[0]!.volumeUsd).toBeCloseTo(volumeSince(7 * 24 * hour, flow), 6);
+      expect(result.volumes[0]!.breakdown!.routes[0]!.volumeUsd).toBeGreaterThan(0);
+    });
+
+    it("should list every fixture token with its decimals", async () => {
+      const result = await Effect.runPromise(
+        service.getSnapshot({ routes: [mockRoute], notionals: ["1000000"] })
+      );
+
+      const symbols = new Set(result.listedAssets!.assets.map((asset) => asset.symbol));
+      expect([...symbols].sort()).toEqual(
+        [...new Set(server.operations
+          .filter((op) => Date.parse(op.sourceChain.timestamp) >= Date.now() - 24 * hour)
+          .map((op) => op.data.symbol))].sort()
+      );
+      expect(result.listedAssets!.assets.find((asset) => asset.symbol === "WETH")).toMatchObject({
+        chainId: "1",
+        decimals: 18,
+        decimalsSource: "token-list",
+      });
+    });
+  });
+
+  describe("operations dataset", () => {
+    it("should crawl once for a snapshot with many routes and notionals", async () => {
+      server.serve([]);
+
+      const routes = Array.from({ length: 5 }, () => mockRoute);
+      const result = await Effect.runPromise(
+        createService().getSnapshot({
+          routes,
+          notionals: ["1000000", "10000000", "100000000", "1000000000"],
+          includeWindows: ["24h", "7d"]
         })
       );
 
+      expect(server.requests).toHaveLength(1);
+      expect(result.rates).toHaveLength(20);
+      expect(result.liquidity).toHaveLength(5);
+    });
+  });
+
+  describe("snapshot cache", () => {
+    const reverseRoute = { source: mockRoute.destination, destination: mockRoute.source };
+
+    beforeEach(() => {
+      server.serve([]);
+    });
+
+    it("should serve repeated snapshots from the cache in the requested order", async () => {
+      const first = await Effect.runPromise(
+        service.getSnapshot({
+          routes: [mockRoute, reverseRoute],
+          notionals: ["1000000", "10000000"],
+          includeWindows: ["24h", "7d"]
+        })
+      );
+      const second = await Effect.runPromise(
+        service.getSnapshot({
+          routes: [reverseRoute, mockRoute],
+          notionals: ["10000000", "1000000", "1000000"],
+          includeWindows: ["7d", "24h"]
+        })
+      );
+
+      expect(server.requests).toHaveLength(1);
+      expect(first.cache.rates).toMatchObject({ status: "miss", ageMs: 0, ttlMs: 15_000 });
+      expect(Object.values(second.cache).map((info) => info.status)).toEqual(["hit", "hit", "hit", "hit"]);
+      expect(second.volumes.map((volume) => volume.window)).toEqual(["7d", "24h"]);
+      expect(second.rates.map((rate) => [rate.source.chainId, rate.amountIn])).toEqual([
+        ["137", "10000000"], ["137", "1000000"], ["137", "1000000"],
+        ["1", "10000000"], ["1", "1000000"], ["1", "1000000"],
+      ]);
+      expect(second.liquidity.map((depth) => depth.route.source.chainId)).toEqual(["137", "1"]);
+    });
+
+    it("should key each section on the input it depends on", async () => {
+      await Effect.runPromise(service.getSnapshot({ routes: [mockRoute], notionals: ["1000000"] }));
+      const result = await Effect.runPromise(
+        service.getSnapshot({ routes: [mockRoute], notionals: ["1000000", "10000000"] })
+      );
+
+      expect(result.cache.rates.status).toBe("miss");
+      // Depth is probed from the smallest notional, which has not changed
+      expect(result.cache.liquidity.status).toBe("hit");
+      expect(result.cache.volumes.status).toBe("hit");
+      expect(result.cache.listedAssets.status).toBe("hit");
+    });
+
+    it("should recompute sections whose cache is disabled", async () => {
+      const uncached = createService({
+        snapshotCache: { rates: { ttlMs: 0, staleMs: 0 } },
+      });
+      const request = { routes: [mockRoute], notionals: ["1000000"] };
+
+      await Effect.runPromise(uncached.getSnapshot(request));
+      const result = await Effect.runPromise(uncached.getSnapshot(request));
+
+      expect(result.cache.rates).toEqual({ status: "miss", ageMs: 0, ttlMs: 0 });
+      expect(result.cache.volumes.status).toBe("hit");
+    });
+  });
+
+  describe("partial snapshots", () => {
+    const hour = 60 * 60 * 1000;
+
+    it("should list failed quotes and keep the rest", async () => {
+      server.serve([]);
+      const flaky: QuoteSource = {
+        name: "fee-model",
+        quote: async (request) => {
+          if (request.amountIn === 10000000n) throw new Error("Quote backend down");
+          return null;
+        },
+      };
+      const partial = createService({
+        quoteSources: [flaky],
+      });
+      const request = { routes: [mockRoute], notionals: ["1000000", "10000000"] };
+
+      const result = await Effect.runPromise(partial.getSnapshot(request));
+
+      expect(result.complete).toBe(false);
+      expect(result.rates.map((rate) => rate.amountIn)).toEqual(["1000000"]);
+      expect(result.errors).toEqual([{
+        section: "rates",
+        route: mockRoute,
+        notional: "10000000",
+        code: "WormholeUpstreamError",
+        message: "Quote backend down",
+        retryable: true,
+      }]);
+      expect(result.liquidity).toHaveLength(1);
       expect(result.volumes).toHaveLength(1);
+
+      // The partial section is not cached, so the failed quote is retried
+      const again = await Effect.runPromise(partial.getSnapshot(request));
+      expect(again.cache.rates.status).toBe("miss");
+      expect(again.cache.liquidity.status).toBe("hit");
+    });
+
+    it("should list routes whose chains cannot be resolved", async () => {
+      server.serve([]);
+      const offRegistry = { ...mockRoute, destination: { ...mockRoute.destination, chainId: "999999" } };
+
+      const result = await Effect.runPromise(
+        service.getSnapshot({ routes: [mockRoute, offRegistry], notionals: ["1000000"] })
+      );
+
+      expect(result.complete).toBe(false);
+      expect(result.rates.map((rate) => rate.destination.chainId)).toEqual(["137"]);
+      expect(result.liquidity.map((depth) => depth.route)).toEqual([mockRoute]);
+      expect(result.errors).toEqual(["rates", "liquidity"].map((section) => ({
+        section,
+        route: offRegistry,
+        code: "UnknownChain",
+        message: "Unknown chain in route 1->999999",
+        retryable: false,
+      })));
+    });
+
+    it("should serve the rate lookback when a longer window cannot be loaded", async () => {
+      // A full first page reaching back two days, and a second page that fails
+      const firstPage = Array.from({ length: 100 }, (_, i) => ({
+        id: `op-${i}`,
+        emitterChain: 2,
+        content: { standarizedProperties: { toChain: 5 } },
+        sourceChain: { chainId: 2, timestamp: new Date(Date.now() - (i * 48 * hour) / 99).toISOString() },
+        data: { symbol: "USDC", tokenAmount: "1", usdAmount: "1" },
+      }));
+      server.serve(firstPage);
+      server.intercept((url) => (url.searchParams.get("page") === "0" ? undefined : "disconnect"));
+
+      const result = await Effect.runPromise(
+        service.getSnapshot({ routes: [mockRoute], notionals: ["1000000"], includeWindows: ["24h", "7d"] })
+      );
+
+      expect(result.complete).toBe(false);
+      expect(result.volumes.map((volume) => volume.window)).toEqual(["24h"]);
+      expect(result.volumes[0]!.volumeUsd).toBe(50);
+      expect(result.errors).toMatchObject([
+        { section: "volumes", window: "7d", code: "WormholeUpstreamError", retryable: true },
+      ]);
       expect(result.rates).toHaveLength(1);
-      expect(result.listedAssets.assets.length).toBeGreaterThan(0);
+      expect(result.listedAssets).not.toBeNull();
+    });
+
+    it("should fail when no part of the snapshot can be computed", async () => {
+      server.intercept(() => "disconnect");
+
+      const exit = await Effect.runPromiseExit(
+        service.getSnapshot({ routes: [mockRoute], notionals: ["1000000"], includeWindows: ["24h", "7d"] })
+      );
+
+      expect(exit._tag).toBe("Failure");
+    });
+  });
+
+  describe("streaming snapshots", () => {
+    const collect = (stream: Stream.Stream<any, any>) =>
+      Effect.runPromise(Stream.runCollect(stream)).then((events) => Array.from(events));
+
+    beforeEach(() => {
+      server.serve([]);
+    });
+
+    it("should emit every part of the snapshot, then a summary", async () => {
+      const events = await collect(
+        service.streamSnapshot({
+          routes: [mockRoute],
+          notionals: ["1000000", "010000000"],
+          includeWindows: ["24h", "7d"]
+        })
+      );
+
+      expect(events.map((event) => event.type)).toEqual([
+        "volume", "volume", "rate", "rate", "liquidity", "listedAssets", "summary",
+      ]);
+      expect(events.filter((event) => event.type === "rate").map((event) => event.rate.amountIn))
+        .toEqual(["1000000", "010000000"]);
+      expect(events[events.length - 1]).toMatchObject({ type: "summary", complete: true, cache: { rates: { status: "miss" } } });
+    });
+
+    it("should emit parts while the rest is still being computed", async () => {
+      let release!: () => void;
+      const gate = new Promise<void>((resolve) => { release = resolve; });
+      const slow: QuoteSource = {
+        name: "fee-model",
+        quote: async (request) => {
+          if (request.amountIn === 10000000n) await gate;
+          return null;
+        },
+      };
+      const streaming = createService({
+        quoteSources: [slow],
+      });
+      const events = Stream.toAsyncIterable(
+        streaming.streamSnapshot({ routes: [mockRoute], notionals: ["1000000", "10000000"] })
+      )[Symbol.asyncIterator]();
+
+      expect((await events.next()).value.type).toBe("volume");
+      // The second quote is still blocked
+      expect((await events.next()).value).toMatchObject({ type: "rate", rate: { amountIn: "1000000" } });
+
+      release();
+      expect((await events.next()).value).toMatchObject({ type: "rate", rate: { amountIn: "10000000" } });
+    });
+
+    it("should emit cached parts once their section is looked up", async () => {
+      const request = { routes: [mockRoute], notionals: ["1000000"] };
+      await Effect.runPromise(service.getSnapshot(request));
+
+      const events = await collect(service.streamSnapshot(request));
+
+      expect(events.map((event) => event.type)).toEqual(["volume", "rate", "liquidity", "listedAssets", "summary"]);
+      expect(events[events.length - 1]).toMatchObject({ cache: { rates: { status: "hit" } } });
+    });
+
+    it("should let stale sections it served refresh after the stream ends", async () => {
+      let held = false;
+      let release!: () => void;
+      const gate = new Promise<void>((resolve) => { release = resolve; });
+      const source: QuoteSource = {
+        name: "fee-model",
+        quote: async () => {
+          // Revalidations outlive the stream that started them
+          if (held) await gate;
+          return null;
+        },
+      };
+      const streaming = createService({
+        quoteSources: [source],
+        snapshotCache: { rates: { ttlMs: 200, staleMs: 60_000 } },
+      });
+      const request = { routes: [mockRoute], notionals: ["1000000"] };
+      await Effect.runPromise(streaming.getSnapshot(request));
+      await new Promise((resolve) => setTimeout(resolve, 250));
+
+      held = true;
+      const events = await collect(streaming.streamSnapshot(request));
+      release();
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      const next = await Effect.runPromise(streaming.getSnapshot(request));
+
+      expect(events[events.length - 1]).toMatchObject({ cache: { rates: { status: "stale" } } });
+      expect(next.cache.rates.status).toBe("hit");
+    });
+
+    it("should fail when no part of the snapshot can be computed", async () => {
+      server.intercept(() => "disconnect");
+
+      await expect(collect(service.streamSnapshot({ routes: [mockRoute], notionals: ["1000000"] })))
+        .rejects.toThrow("fetch failed");
+    });
+  });
+
+  describe("bounded concurrency", () => {
+    const notionals = ["1000000", "2000000", "3000000", "4000000", "5000000"];
+
+    // Holds every quote until released, counting how many run at once
+    const blockingSource = () => {
+      let release!: () => void;
+      const gate = new Promise<void>((resolve) => { release = resolve; });
+      const counts = { started: 0, active: 0, maxActive: 0 };
+      const source: QuoteSource = {
+        name: "fee-model",
+        quote: async () => {
+          counts.started++;
+          counts.maxActive = Math.max(counts.maxActive, ++counts.active);
+          await gate;
+          counts.active--;
+          return null;
+        },
+      };
+      return { source, counts, release };
+    };
+
+    beforeEach(() => {
+      server.serve([]);
+    });
+
+    it("should quote at most maxConcurrency combinations at once, in request order", async () => {
+      const { source, counts, release } = blockingSource();
+      const bounded = createService({
+        quoteSources: [source],
+        maxConcurrency: 2,
+      });
+
+      const snapshot = Effect.runPromise(bounded.getSnapshot({ routes: [mockRoute], notionals }));
+      await vi.waitFor(() => expect(counts.started).toBe(2));
+      release();
+      const result = await snapshot;
+
+      expect(counts.maxActive).toBe(2);
+      expect(result.rates.map((rate) => rate.amountIn)).toEqual(notionals);
+    });
+
+    it("should cancel outstanding quotes when the snapshot times out", async () => {
+      const { source, counts, release } = blockingSource();
+      const bounded = createService({
+        quoteSources: [source],
+        maxConcurrency: 2,
+      });
+
+      const exit = await Effect.runPromiseExit(
+        bounded.getSnapshot({ routes: [mockRoute], notionals }).pipe(Effect.timeout("50 millis"))
+      );
+      release();
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect(Exit.isFailure(exit)).toBe(true);
+      expect(counts.started).toBe(2);
+    });
+
+    it("should cancel outstanding quotes when a stream is interrupted", async () => {
+      const { source, counts, release } = blockingSource();
+      const bounded = createService({
+        quoteSources: [source],
+        maxConcurrency: 2,
+      });
+
+      const events = await Effect.runPromise(
+        Stream.runCollect(bounded.streamSnapshot({ routes: [mockRoute], notionals }).pipe(Stream.interruptAfter("50 millis")))
+      );
+      release();
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect(Array.from(events).map((event) => event.type)).toEqual(["volume"]);
+      expect(counts.started).toBe(2);
+    });
+
+    it("should recompute a section whose shared computation was cancelled", async () => {
+      const { source, counts, release } = blockingSource();
+      const bounded = createService({
+        quoteSources: [source],
+        maxConcurrency: 2,
+      });
+      const params = { routes: [mockRoute], notionals };
+
+      const first = Effect.runFork(bounded.getSnapshot(params));
+      await vi.waitFor(() => expect(counts.started).toBe(2));
+      // The second snapshot joins the rates computation in flight
+      const second = Effect.runPromise(bounded.getSnapshot(params));
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      expect(counts.started).toBe(2);
+      await Effect.runPromise(Fiber.interrupt(first));
+      release();
+
+      const result = await second;
+      expect(result.complete).toBe(true);
+      expect(result.rates).toHaveLength(notionals.length);
+    });
+  });
+
+  describe("deadlines", () => {
+    // Quotes that never finish
+    const stuck: QuoteSource = { name: "fee-model", quote: () => new Promise(() => {}) };
+
+    beforeEach(() => {
+      server.serve([]);
+    });
+
+    it("should fail a snapshot that runs past its deadline", async () => {
+      const slow = createService({
+        quoteSources: [stuck],
+      });
+
+      const exit = await Effect.runPromiseExit(
+        slow.getSnapshot({ routes: [mockRoute], notionals: ["1000000"], deadlineMs: 50 })
+      );
+
+      expect(exit).toMatchObject({
+        _tag: "Failure",
+        cause: { error: { _tag: "WormholeTimeoutError", timeoutMs: 50 } },
+      });
+    });
+
+    it("should fail a stream after the parts computed before its deadline", async () => {
+      const slow = createService({
+        quoteSources: [stuck],
+      });
+      const events: string[] = [];
+
+      const exit = await Effect.runPromiseExit(
+        Stream.runForEach(
+          slow.streamSnapshot({ routes: [mockRoute], notionals: ["1000000"], deadlineMs: 50 }),
+          (event) => Effect.sync(() => events.push(event.type))
+        )
+      );
+
+      expect(events).toEqual(["volume"]);
+      expect(exit).toMatchObject({ _tag: "Failure", cause: { error: { _tag: "WormholeTimeoutError" } } });
+    });
+
+    it("should cancel the operations sync of an interrupted snapshot", async () => {
+      server.intercept(() => "hang");
+
+      await Effect.runPromiseExit(
+        service.getSnapshot({ routes: [mockRoute], notionals: ["1000000"], deadlineMs: 50 })
+      );
+
+      await vi.waitFor(() => expect(server.aborted).toHaveLength(1));
+    });
+  });
+
+  describe("volume windows", () => {
+    const transfer = (id: string, timestamp: string, usdAmount: string) => ({
+      id,
+      emitterChain: 2,
+      content: { standarizedProperties: { toChain: 5 } },
+      sourceChain: { chainId: 2, timestamp },
+      data: { symbol: "USDC", tokenAmount: usdAmount, usdAmount },
+    });
+
+    it("should total explicit ranges exactly, excluding their end", async () => {
+      const hour = 60 * 60 * 1000;
+      const at = (hoursAgo: number) => new Date(Date.now() - hoursAgo * hour).toISOString();
+      server.serve([
+        transfer("recent", at(0.5), "1"),
+        transfer("at-end", at(2), "10"),
+        transfer("inside", at(3), "100"),
+        transfer("at-start", at(4), "1000"),
+        transfer("before", at(5), "10000"),
+      ]);
+
+      const from = at(4);
+      const to = at(2);
+      const result = await Effect.runPromise(
+        service.getSnapshot({ routes: [mockRoute], notionals: ["1000000"], includeWindows: [{ from, to }, "1h"] })
+      );
+
+      const [range, lastHour] = result.volumes;
+      expect(range).toMatchObject({ window: { from, to }, from, to, volumeUsd: 1100 });
+      expect(range!.provenance).toMatchObject({ sampleSize: 2, coveredFrom: from, coveredTo: to, confidence: 1 });
+      expect(lastHour).toMatchObject({ window: "1h", volumeUsd: 1 });
+    });
+
+    it("should break volume down only when asked", async () => {
+      server.serve([
+        transfer("usdc", new Date().toISOString(), "100"),
+        { ...transfer("weth", new Date().toISOString(), "50"), data: { symbol: "WETH", tokenAmount: "1", usdAmount: "50" } },
+      ]);
+
+      const plain = await Effect.runPromise(
+        service.getSnapshot({ routes: [mockRoute], notionals: ["1000000"] })
+      );
+      expect(plain.volumes[0]!.breakdown).toBeUndefined();
+
+      const route = { source: { ...mockRoute.source, chainId: "ethereum" }, destination: mockRoute.destination };
+      const result = await Effect.runPromise(
+        service.getSnapshot({ routes: [route], notionals: ["1000000"], includeBreakdown: true })
+      );
+      const breakdown = result.volumes[0]!.breakdown!;
+
+      expect(breakdown.transfers).toBe(2);
+      expect(breakdown.chainPairs).toEqual([
+        { sourceChainId: "1", destinationChainId: "137", volumeUsd: 150, transfers: 2, uniqueSenders: 0 },
+      ]);
+      // Only transfers of the route's asset count towards the route
+      expect(breakdown.routes).toEqual([{ route, volumeUsd: 100, transfers: 1, uniqueSenders: 0 }]);
+    });
+
+    it("should not count the future part of a range against coverage", async () => {
+      server.serve([]);
+
+      const from = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+      const to = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+      const result = await Effect.runPromise(
+        service.getSnapshot({ routes: [mockRoute], notionals: ["1000000"], includeWindows: [{ from, to }] })
+      );
+
+      expect(result.volumes[0]!.to).toBe(to);
+      expect(result.volumes[0]!.provenance.confidence).toBe(1);
+      expect(Date.parse(result.volumes[0]!.provenance.coveredTo!)).toBeLessThan(Date.parse(to));
+    });
+  });
+
+  describe("volume series", () => {
+    const hour = 60 * 60 * 1000;
+    const transfer = (id: string, time: number, symbol: string, usdAmount: string, toChain = 5) => ({
+      id,
+      emitterChain: 2,
+      content: { standarizedProperties: { toChain } },
+      sourceChain: { chainId: 2, timestamp: new Date(time).toISOString() },
+      data: { symbol, tokenAmount: usdAmount, usdAmount },
+    });
+
+    const from = Date.parse("2025-03-17T00:00:00.000Z");
+    const to = from + 3 * hour;
+
+    beforeEach(() => {
+      server.serve([
+        transfer("usdc-1", from + 2.5 * hour, "USDC", "10"),
+        transfer("weth", from + 2.2 * hour, "WETH", "20"),
+        transfer("usdc-2", from + 0.5 * hour, "USDC", "40"),
+        transfer("usdc-solana", from + 0.1 * hour, "USDC", "80", 1),
+      ]);
+    });
+
+    const window = { from: new Date(from).toISOString(), to: new Date(to).toISOString() };
+
+    it("should bucket volume hourly, including empty buckets", async () => {
+      const result = await Effect.runPromise(service.getVolumeSeries({ window, interval: "hour" }));
+
+      expect(result.buckets).toEqual([
+        { start: "2025-03-17T00:00:00.000Z", end: "2025-03-17T01:00:00.000Z", volumeUsd: 120, transfers: 2 },
+        { start: "2025-03-17T01:00:00.000Z", end: "2025-03-17T02:00:00.000Z", volumeUsd: 0, transfers: 0 },
+        { start: "2025-03-17T02:00:00.000Z", end: "2025-03-17T03:00:00.000Z", volumeUsd: 30, transfers: 2 },
+      ]);
+    });
+
+    it("should filter the series by route or asset", async () => {
+      const byRoute = await Effect.runPromise(service.getVolumeSeries({ window, interval: "day", route: mockRoute }));
+      expect(byRoute.buckets).toEqual([
+        { start: "2025-03-17T00:00:00.000Z", end: "2025-03-18T00:00:00.000Z", volumeUsd: 50, transfers: 2 },
+      ]);
+
+      const bySymbol = await Effect.runPromise(service.getVolumeSeries({ window, interval: "day", symbol: "WETH" }));
+      expect(bySymbol.buckets[0]).toMatchObject({ volumeUsd: 20, transfers: 1 });
+      expect(bySymbol.provenance.sampleSize).toBe(1);
+    });
+  });
+
+  describe("operations store", () => {
+    it("should serve stored operations after a restart without re-crawling", async () => {
+      const directory = await mkdtemp(join(tmpdir(), "wormhole-service-"));
+      const transfer = {
+        id: "stored",
+        emitterChain: 2,
+        content: { standarizedProperties: { toChain: 5 } },
+        sourceChain: { chainId: 2, timestamp: new Date().toISOString() },
+        data: { symbol: "USDC", tokenAmount: "250", usdAmount: "250" },
+      };
+      server.serve([transfer]);
+
+      try {
+        const create = () => createService({ store: new FileOperationsStore(directory) });
+        await Effect.runPromise(create().getSnapshot({ routes: [mockRoute], notionals: ["1000000"] }));
+
+        server.reset();
+        server.intercept(() => "disconnect");
+        const result = await Effect.runPromise(create().getSnapshot({ routes: [mockRoute], notionals: ["1000000"] }));
+
+        expect(server.requests).toHaveLength(0);
+        expect(result.volumes[0]!.volumeUsd).toBe(250);
+      } finally {
+        await rm(directory, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("chain matching", () => {
+    const operation = (id: string, emitterChain: number, toChain: number) => ({
+      id,
+      emitterChain,
+      content: { standarizedProperties: { toChain, tokenChain: emitterChain, tokenAddress: "0xtoken" } },
+      sourceChain: { chainId: emitterChain, timestamp: new Date().toISOString() },
+      data: { symbol: "USDC", tokenAmount: "100", usdAmount: "99.5" },
+    });
+
+    beforeEach(() => {
+      server.serve([
+        operation("eth-polygon", 2, 5), // Ethereum -> Polygon in Wormhole ids
+        operation("solana-eth", 1, 2),
+      ]);
+    });
+
+    it.each([
+      ["EVM chain ids", "1", "137"],
+      ["CAIP-2 ids", "eip155:1", "eip155:137"],
+      ["Wormhole ids", "wormhole:2", "wormhole:5"],
+      ["names", "ethereum", "Polygon"],
+    ])("should match operations for routes given as %s", async (_form, sourceChainId, destinationChainId) => {
+      const route = {
+        source: { ...mockRoute.source, chainId: sourceChainId },
+        destination: { ...mockRoute.destination, chainId: destinationChainId },
+      };
+
+      const result = await Effect.runPromise(
+        service.getSnapshot({ routes: [route], notionals: ["1000000"] })
+      );
+
+      // The one Ethereum -> Polygon transfer prices the fee model's quote
+      expect(result.rates[0]!.provenance.sampleSize).toBe(1);
+    });
+
+    it("should report listed assets with canonical chain ids", async () => {
+      const result = await Effect.runPromise(
+        service.getSnapshot({ routes: [mockRoute], notionals: ["1000000"] })
+      );
+
+      expect(result.listedAssets!.assets.map((asset) => asset.chainId).sort()).toEqual([
+        "1",
+        "solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp",
+      ]);
+    });
+  });
+
+  describe("rates", () => {
+    it("should apply the observed rate exactly with source and destination decimals", async () => {
+      const transfer = (id: string, amount: string, fee: string) => ({
+        id,
+        emitterChain: 2,
+        content: { standarizedProperties: { toChain: 5, amount, fee } },
+        sourceChain: { chainId: 2, timestamp: new Date().toISOString() },
+        data: { symbol: "WETH", tokenAmount: "1", usdAmount: "3000" },
+      });
+
+      server.serve([
+        transfer("a", "100000000", "100000"), // 0.1% fee
+        transfer("b", "200000000", "600000"), // 0.3% fee
+      ]);
+
+      const route = {
+        source: { ...mockRoute.source, symbol: "WETH", decimals: 18 },
+        destination: { ...mockRoute.destination, symbol: "WETH", decimals: 8 },
+      };
+      const historical = createService({
+        quoteSources: [new HistoricalQuoteSource()],
+      });
+      const result = await Effect.runPromise(
+        historical.getSnapshot({ routes: [route], notionals: ["1234567890123456789012"] })
+      );
+
+      const rate = result.rates[0]!;
+      expect(rate.quoteSource).toBe("historical");
+      // 1234.567890123456789012 WETH at 0.998, truncated to 8 decimals
+      expect(rate.amountOut).toBe("123209875434");
+      expect(rate.effectiveRate).toBeCloseTo(0.998, 9);
+      expect(rate.totalFeesUsd).toBeCloseTo(1234.567890123456789012 * 0.002 * 3000, 6);
+    });
+
+    it("should fall through the quote sources and label the one used", async () => {
+      server.serve([]);
+
+      const declining = { name: "fee-model" as const, quote: vi.fn(async () => null) };
+      const result = await Effect.runPromise(
+        createService({
+          quoteSources: [declining, new HistoricalQuoteSource()],
+        }).getSnapshot({ routes: [mockRoute], notionals: ["1000000"] })
+      );
+
+      // Once for the rate and once for the liquidity reference amount
+      expect(declining.quote).toHaveBeenCalledTimes(2);
+      expect(result.rates[0]).toMatchObject({
+        amountOut: "995000",
+        effectiveRate: 0.995,
+        quoteSource: "assumed",
+        protocol: null,
+      });
+    });
+
+    it("should quote through the fee model by default", async () => {
+      server.serve([]);
+
+      const result = await Effect.runPromise(
+        service.getSnapshot({ routes: [mockRoute], notionals: ["1000000000"] })
+      );
+
+      expect(result.rates[0]).toMatchObject({ quoteSource: "fee-model", protocol: "portal" });
+      expect(result.rates[0]!.totalFeesUsd).toBeGreaterThan(0);
+    });
+  });
+
+  describe("liquidity depth", () => {
+    const usdcRoute = {
+      source: { chainId: "solana", assetId: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v", symbol: "USDC", decimals: 6 },
+      destination: { chainId: "1", assetId: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48", symbol: "USDC", decimals: 6 },
+    };
+
+    beforeEach(() => {
+      server.serve([]);
+    });
+
+    it("should report where the quotes' slippage crosses each threshold", async () => {
+      // Constant-product pool of 10M USDC a side behind a fixed $2.50 fee
+      const reserve = 10_000_000n * 10n ** 6n;
+      const fee = 2_500_000n;
+      const pool: QuoteSource = {
+        name: "fee-model",
+        quote: async ({ amountIn }) => {
+          const out = (reserve * amountIn) / (reserve + amountIn);
+          return {
+            source: "fee-model",
+            protocol: null,
+            amountOut: out > fee ? out - fee : 0n,
+            feesUsd: 2.5,
+            samples: [],
+            confidence: 0.5,
+          };
+        },
+      };
+      const result = await Effect.runPromise(
+        createService({
+          quoteSources: [pool],
+        }).getSnapshot({
+          routes: [usdcRoute],
+          // 0.001 USDC does not cover the fee
+          notionals: ["1000", "10000"],
+          slippageBpsThresholds: [10, 50],
+        })
+      );
+
+      // Slippage x / (X + x) reaches bps / 10000 at x = X * bps / (10000 - bps)
+      const expected = [(10_000_000 * 1e6 * 10) / 9_990, (10_000_000 * 1e6 * 50) / 9_950];
+      const thresholds = result.liquidity[0]!.thresholds;
+      expect(thresholds.map((threshold) => threshold.slippageBps)).toEqual([10, 50]);
+      thresholds.forEach((threshold, i) => {
+        expect(Number(threshold.maxAmountIn) / expected[i]!).toBeCloseTo(1, 2);
+        expect(threshold.limitedBy).toBe("slippage");
+      });
+      expect(result.liquidity[0]!.provenance.confidence).toBe(0.5);
+    });
+
+    it("should bound the fee model's flat quotes by its transfer limit", async () => {
+      const result = await Effect.runPromise(
+        service.getSnapshot({
+          routes: [usdcRoute],
+          notionals: ["1000", "10000"],
+          slippageBpsThresholds: [10, 50],
+        })
+      );
+
+      // The fixed fee is not slippage, so CCTP's 1M USDC transfer limit is the bound at every threshold
+      const limit = 1_000_000 * 1e6;
+      const thresholds = result.liquidity[0]!.thresholds;
+      expect(thresholds.map((threshold) => [threshold.slippageBps, threshold.limitedBy])).toEqual([
+        [10, "transfer-limit"],
+        [50, "transfer-limit"],
+      ]);
+      thresholds.forEach((threshold) => {
+        expect(Number(threshold.maxAmountIn)).toBeLessThanOrEqual(limit);
+        expect(Number(threshold.maxAmountIn)).toBeGreaterThan(limit * 0.998);
+      });
+      expect(result.liquidity[0]!.provenance.source).toBe("fee-model");
+      expect(result.complete).toBe(true);
+    });
+  });
+
+  describe("provenance", () => {
+    it("should tell missing data apart from measured values", async () => {
+      server.serve([]);
+
+      const result = await Effect.runPromise(
+        createService({
+          quoteSources: [new HistoricalQuoteSource()],
+        }).getSnapshot({ routes: [mockRoute], notionals: ["1000000"], includeWindows: ["7d"] })
+      );
+
+      // The crawl reached the start of the window: no volume, fully covered
+      expect(result.volumes[0]!.provenance).toMatchObject({
+        source: "wormholescan-operations",
+        sampleSize: 0,
+        fallbackUsed: false,
+        confidence: 1,
+      });
+      expect(Date.parse(result.volumes[0]!.provenance.coveredTo!) - Date.parse(result.volumes[0]!.provenance.coveredFrom!))
+        .toBe(7 * 24 * 60 * 60 * 1000);
+
+      // No transfers on the route: depth of zero is no data, not no liquidity
+      expect(result.liquidity[0]!.provenance).toMatchObject({ sampleSize: 0, confidence: 0, coveredFrom: null });
+
+      // The flat-fee fallback is flagged
+      expect(result.rates[0]!.provenance).toMatchObject({ source: "assumed", fallbackUsed: true, confidence: 0 });
+    });
+  });
+
+  describe("listed assets", () => {
+    it("should resolve decimals from Wormholescan, then the token list, else flag them unknown", async () => {
+      const transfer = (id: string, tokenAddress: string, normalizedDecimals: number, symbol: string) => ({
+        id,
+        emitterChain: 2,
+        content: { standarizedProperties: { toChain: 5, tokenChain: 2, tokenAddress, normalizedDecimals } },
+        sourceChain: { chainId: 2, timestamp: new Date().toISOString() },
+        data: { symbol, tokenAmount: "1", usdAmount: "1" },
+      });
+
+      server.serve([
+        transfer("usdc", "0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48", 6, "USDC"),
+        transfer("weth", "0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2", 8, "WETH"),
+        transfer("mystery", "0x0000000000000000000000000000000000000001", 8, "MYST"),
+      ]);
+
+      const result = await Effect.runPromise(
+        service.getSnapshot({ routes: [mockRoute], notionals: ["1000000"] })
+      );
+      const bySymbol = Object.fromEntries(result.listedAssets!.assets.map((asset) => [asset.symbol, asset]));
+
+      expect(bySymbol.USDC).toMatchObject({ decimals: 6, decimalsSource: "wormholescan" });
+      expect(bySymbol.WETH).toMatchObject({ decimals: 18, decimalsSource: "token-list" });
+      expect(bySymbol.MYST).toMatchObject({ decimals: null, decimalsSource: "unknown" });
     });
   });
 
   describe("ping", () => {
-    it("should return healthy status even when API fails", async () => {
-      (global.fetch as any).mockRejectedValue(new Error("API unavailable"));
+    beforeEach(() => {
+      server.serve([]);
+    });
+
+    it("should report down when the API fails and nothing has been synced", async () => {
+      server.intercept(() => "disconnect");
 
       const result = await Effect.runPromise(service.ping());
 
-      expect(result).toEqual({
-        status: "ok",
+      expect(result).toMatchObject({
+        status: "down",
         timestamp: expect.any(String),
+        upstream: { reachable: false, latencyMs: null, error: expect.stringContaining("fetch failed") },
+        lastSyncAt: null,
+        cacheAgeMs: null,
       });
     });
 
     it("should return healthy status when API succeeds", async () => {
-      (global.fetch as any).mockResolvedValue({
-        ok: true,
-        json: async () => ({ status: "ok" }),
-      });
-
       const result = await Effect.runPromise(service.ping());
 
-      expect(result).toEqual({
+      expect(result).toMatchObject({
         status: "ok",
         timestamp: expect.any(String),
+        upstream: { reachable: true, latencyMs: expect.any(Number), error: null },
+        rateLimiter: { queued: 0, inFlight: 0, pausedForMs: 0 },
       });
     });
+
+    it("should report the last sync and cache age", async () => {
+      await Effect.runPromise(service.getSnapshot({ routes: [mockRoute], notionals: ["1000000"] }));
+
+      const result = await Effect.runPromise(service.ping());
+
+      expect(result.status).toBe("ok");
+      expect(Date.now() - Date.parse(result.lastSyncAt!)).toBeLessThan(60_000);
+      expect(result.cacheAgeMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it("should report degraded while serving data synced before an outage", async () => {
+      await Effect.runPromise(service.sync());
+      server.intercept(() => "disconnect");
+
+      const result = await Effect.runPromise(service.ping());
+
+      expect(result.status).toBe("degraded");
+      expect(result.upstream.reachable).toBe(false);
+      expect(result.lastSyncAt).not.toBeNull();
+    });
+
+    it("should report degraded when the last sync failed", async () => {
+      await Effect.runPromise(service.sync());
+      server.intercept(() => ({ status: 503 }));
+      await Effect.runPromise(Effect.either(service.sync()));
+      server.intercept(null);
+
+      const result = await Effect.runPromise(service.ping());
+
+      expect(result).toMatchObject({ status: "degraded", upstream: { reachable: true, error: null } });
+    });
+
+    it("should report degraded without probing while rate limited", async () => {
+      server.intercept(() => ({ status: 429, headers: { "Retry-After": "30" } }));
+
+      const first = await Effect.runPromise(service.ping());
+      const second = await Effect.runPromise(service.ping());
+
+      expect(first).toMatchObject({ status: "degraded", upstream: { reachable: true } });
+      expect(second.status).toBe("degraded");
+      expect(second.rateLimiter).toMatchObject({ saturation: 1, pausedForMs: expect.any(Number) });
+      expect(second.rateLimiter.pausedForMs).toBeGreaterThan(0);
+      expect(server.requests).toHaveLength(1);
+    });
   });
 });
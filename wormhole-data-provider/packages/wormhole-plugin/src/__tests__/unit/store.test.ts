@@ -0,0 +1,86 @@
+import { mkdtemp, readFile, readdir, rm, appendFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { FileOperationsStore } from "../../store";
+import type { WormholescanOperationType } from "../../wormholescan";
+
+const operation = (id: string, usdAmount = "1"): WormholescanOperationType => ({
+  id,
+  emitterChain: 2,
+  sourceChain: { chainId: 2, timestamp: "2025-03-17T12:00:00.000Z" },
+  data: { symbol: "USDC", tokenAmount: usdAmount, usdAmount },
+});
+
+const state = { coveredFrom: 1_000, syncedAt: 2_000 };
+
+describe("FileOperationsStore", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "wormhole-store-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("should read nothing before the first write", async () => {
+    expect(await new FileOperationsStore(join(directory, "missing")).read()).toBeNull();
+  });
+
+  it("should round-trip operations and the sync state", async () => {
+    const ops = [operation("a"), operation("b")];
+    await new FileOperationsStore(directory).write(ops, state, ops);
+
+    const stored = await new FileOperationsStore(directory).read();
+
+    expect(stored!.state).toEqual(state);
+    expect(stored!.operations.map((op) => op.id)).toEqual(["a", "b"]);
+  });
+
+  it("should let later versions of an operation win", async () => {
+    const store = new FileOperationsStore(directory);
+    await store.write([operation("a", "1")], state, [operation("a", "1")]);
+    await store.write([operation("a", "2")], state, [operation("a", "2")]);
+
+    const stored = await new FileOperationsStore(directory).read();
+
+    expect(stored!.operations).toHaveLength(1);
+    expect(stored!.operations[0]!.data?.usdAmount).toBe("2");
+  });
+
+  it("should skip lines cut short by a crash", async () => {
+    await new FileOperationsStore(directory).write([operation("a")], state, [operation("a")]);
+    await appendFile(join(directory, "operations.ndjson"), '{"id":"b","emitterCh');
+
+    const stored = await new FileOperationsStore(directory).read();
+
+    expect(stored!.operations.map((op) => op.id)).toEqual(["a"]);
+  });
+
+  it("should compact the log once it outgrows the retained operations", async () => {
+    const store = new FileOperationsStore(directory);
+    for (let i = 0; i < 5; i++) {
+      await store.write([operation("a", String(i))], state, [operation("a", String(i))]);
+    }
+
+    const log = await readFile(join(directory, "operations.ndjson"), "utf8");
+    expect(log.trim().split("\n").length).toBeLessThanOrEqual(2);
+  });
+
+  it("should apply overlapping writes in call order", async () => {
+    const store = new FileOperationsStore(directory);
+    await Promise.all(
+      Array.from({ length: 5 }, (_, i) =>
+        store.write([operation("a", String(i))], { coveredFrom: i, syncedAt: 2_000 + i }, [operation("a", String(i))])
+      )
+    );
+
+    const stored = await new FileOperationsStore(directory).read();
+
+    expect(stored!.state).toEqual({ coveredFrom: 4, syncedAt: 2_004 });
+    expect(stored!.operations[0]!.data?.usdAmount).toBe("4");
+    expect((await readdir(directory)).sort()).toEqual(["operations.ndjson", "state.json"]);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { chainFromWormholeId, resolveChain } from "../../chains";
+import { TOKEN_LIST, lookupToken, normalizeTokenAddress, resolveTokenDecimals } from "../../tokens";
+
+const ethereum = resolveChain("ethereum")!;
+const solana = resolveChain("solana")!;
+
+describe("normalizeTokenAddress", () => {
+  it("should lowercase and unpad EVM addresses", () => {
+    expect(normalizeTokenAddress(ethereum, "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2"))
+      .toBe("0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2");
+    expect(normalizeTokenAddress(ethereum, "000000000000000000000000C02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2"))
+      .toBe("0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2");
+  });
+
+  it("should leave non-EVM addresses untouched", () => {
+    expect(normalizeTokenAddress(solana, "So11111111111111111111111111111111111111112"))
+      .toBe("So11111111111111111111111111111111111111112");
+  });
+});
+
+describe("resolveTokenDecimals", () => {
+  it("should trust Wormholescan decimals below the 8-decimal normalization cap", () => {
+    expect(resolveTokenDecimals(ethereum, "0xunknown", 6)).toEqual({ decimals: 6, source: "wormholescan" });
+  });
+
+  it("should fall back to the token list when Wormholescan reports the cap", () => {
+    expect(resolveTokenDecimals(ethereum, "0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2", 8))
+      .toEqual({ decimals: 18, source: "token-list" });
+    expect(resolveTokenDecimals(solana, "So11111111111111111111111111111111111111112"))
+      .toEqual({ decimals: 9, source: "token-list" });
+  });
+
+  it("should flag unknown decimals instead of guessing", () => {
+    expect(resolveTokenDecimals(ethereum, "0x0000000000000000000000000000000000000001", 8))
+      .toEqual({ decimals: null, source: "unknown" });
+  });
+});
+
+describe("TOKEN_LIST", () => {
+  it("should only reference known chains, without duplicates", () => {
+    const keys = TOKEN_LIST.map((token) => {
+      const chain = chainFromWormholeId(token.wormholeChainId);
+      expect(chain).not.toBeNull();
+      expect(lookupToken(chain!, token.address)).toBe(token);
+      return `${token.wormholeChainId}:${normalizeTokenAddress(chain!, token.address)}`;
+    });
+
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { bucketRange, inWindow, resolveWindow } from "../../windows";
+
+const now = Date.parse("2025-03-17T12:00:00.000Z");
+
+describe("resolveWindow", () => {
+  it.each([
+    ["1h", 60 * 60 * 1000],
+    ["24h", 24 * 60 * 60 * 1000],
+    ["7d", 7 * 24 * 60 * 60 * 1000],
+    ["30d", 30 * 24 * 60 * 60 * 1000],
+    ["90d", 90 * 24 * 60 * 60 * 1000],
+  ] as const)("should resolve the %s preset to a trailing window", (preset, durationMs) => {
+    expect(resolveWindow(preset, now)).toEqual({ start: now - durationMs, end: null });
+  });
+
+  it("should start month to date at the beginning of the UTC month", () => {
+    expect(resolveWindow("mtd", now)).toEqual({ start: Date.parse("2025-03-01T00:00:00.000Z"), end: null });
+  });
+
+  it("should resolve explicit ranges as given", () => {
+    expect(resolveWindow({ from: "2025-02-01T00:00:00Z", to: "2025-03-01T00:00:00Z" }, now)).toEqual({
+      start: Date.parse("2025-02-01T00:00:00Z"),
+      end: Date.parse("2025-03-01T00:00:00Z"),
+    });
+  });
+});
+
+describe("inWindow", () => {
+  it("should include the start and exclude the end of explicit ranges", () => {
+    const range = { start: 1_000, end: 2_000 };
+
+    expect(inWindow(999, range)).toBe(false);
+    expect(inWindow(1_000, range)).toBe(true);
+    expect(inWindow(1_999, range)).toBe(true);
+    expect(inWindow(2_000, range)).toBe(false);
+  });
+
+  it("should leave presets open-ended", () => {
+    expect(inWindow(now + 1_000, resolveWindow("1h", now))).toBe(true);
+  });
+});
+
+describe("bucketRange", () => {
+  const hour = 60 * 60 * 1000;
+
+  it("should align buckets to the interval and cover the whole range", () => {
+    const buckets = bucketRange(now - 2.5 * hour, now + 0.5 * hour, hour);
+
+    expect(buckets.map((bucket) => new Date(bucket.start).toISOString())).toEqual([
+      "2025-03-17T09:00:00.000Z",
+      "2025-03-17T10:00:00.000Z",
+      "2025-03-17T11:00:00.000Z",
+      "2025-03-17T12:00:00.000Z",
+    ]);
+    expect(buckets[buckets.length - 1]!.end).toBe(now + hour);
+  });
+
+  it("should align daily buckets to UTC midnight", () => {
+    const [first] = bucketRange(now, now + 1, 24 * hour);
+
+    expect(new Date(first!.start).toISOString()).toBe("2025-03-17T00:00:00.000Z");
+  });
+});
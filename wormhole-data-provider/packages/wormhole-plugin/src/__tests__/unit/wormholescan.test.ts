@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { WormholeDecodeError } from "../../errors";
+import { decodeOperationsPage, decodeTokenTransfer } from "../../wormholescan";
+
+const validOperation = {
+  id: "2/0000000000000000000000003ee18b2214aff97000d974cf647e7c347e8fa585/168563",
+  emitterChain: 2,
+  emitterAddress: {
+    hex: "0000000000000000000000003ee18b2214aff97000d974cf647e7c347e8fa585",
+    native: "0x3ee18b2214aff97000d974cf647e7c347e8fa585",
+  },
+  sequence: "168563",
+  vaa: { raw: "AQAAAAQN...", guardianSetIndex: 4, isDuplicated: false },
+  content: {
+    payload: {
+      payloadType: 1,
+      amount: "150000000",
+      tokenAddress: "000000000000000000000000a0b86991c6218b36c1d19d4a2e9eb0ce3606eb48",
+      tokenChain: 2,
+      toAddress: "0000000000000000000000001111111111111111111111111111111111111111",
+      toChain: 5,
+      fee: "0",
+    },
+    standarizedProperties: {
+      appIds: ["PORTAL_TOKEN_BRIDGE"],
+      fromChain: 2,
+      fromAddress: "0x2222222222222222222222222222222222222222",
+      toChain: 5,
+      toAddress: "0x1111111111111111111111111111111111111111",
+      tokenChain: 2,
+      tokenAddress: "0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48",
+      amount: "150000000",
+      feeAddress: "",
+      feeChain: 0,
+      fee: "0",
+      normalizedDecimals: 8,
+    },
+  },
+  sourceChain: {
+    chainId: 2,
+    timestamp: "2024-05-01T12:00:00Z",
+    transaction: { txHash: "0xabc" },
+    from: "0x2222222222222222222222222222222222222222",
+    status: "confirmed",
+  },
+  targetChain: null,
+  data: { symbol: "USDC", tokenAmount: "1.5", usdAmount: 1.5 },
+};
+
+describe("decodeOperationsPage", () => {
+  it("should decode well-formed operations", () => {
+    const { operations, diagnostics } = decodeOperationsPage({ operations: [validOperation] });
+
+    expect(operations).toHaveLength(1);
+    expect(operations[0]!.data?.usdAmount).toBe("1.5");
+    expect(operations[0]!.content?.standarizedProperties?.toChain).toBe(5);
+    expect(diagnostics).toEqual({ decoded: 1, malformed: 0, issues: {} });
+  });
+
+  it("should count malformed records by issue instead of dropping them silently", () => {
+    const { operations, diagnostics } = decodeOperationsPage({
+      operations: [
+        validOperation,
+        { ...validOperation, id: "a", emitterChain: "ethereum" },
+        { ...validOperation, id: "b", emitterChain: "solana" },
+        { ...validOperation, id: "c", data: { usdAmount: "n/a" } },
+      ],
+    });
+
+    expect(operations).toHaveLength(1);
+    expect(diagnostics.decoded).toBe(1);
+    expect(diagnostics.malformed).toBe(3);
+    expect(Object.keys(diagnostics.issues)).toHaveLength(2);
+    expect(diagnostics.issues[Object.keys(diagnostics.issues).find((k) => k.startsWith("emitterChain"))!]).toBe(2);
+    expect(Object.keys(diagnostics.issues).some((k) => k.startsWith("data.usdAmount"))).toBe(true);
+  });
+
+  it("should reject a page without an operations array", () => {
+    expect(() => decodeOperationsPage({ items: [] })).toThrow(WormholeDecodeError);
+  });
+});
+
+describe("decodeTokenTransfer", () => {
+  it("should decode Token Bridge transfer payloads", () => {
+    const { operations } = decodeOperationsPage({ operations: [validOperation] });
+    const transfer = decodeTokenTransfer(operations[0]!);
+
+    expect(transfer).toMatchObject({ payloadType: 1, amount: "150000000", toChain: 5, fee: "0" });
+  });
+
+  it("should return null for other payloads", () => {
+    const { operations } = decodeOperationsPage({
+      operations: [{ ...validOperation, content: { payload: { payloadType: 99 } } }],
+    });
+
+    expect(decodeTokenTransfer(operations[0]!)).toBeNull();
+  });
+});
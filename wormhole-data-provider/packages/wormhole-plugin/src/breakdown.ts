@@ -0,0 +1,112 @@
+import type { z } from "every-plugin/zod";
+
+import { chainFromWormholeId, formatChainId } from "./chains";
+import type { Asset, VolumeBreakdown } from "./contract";
+import { normalizeTokenAddress } from "./tokens";
+import type { WormholescanOperationType } from "./wormholescan";
+
+type AssetType = z.infer<typeof Asset>;
+type VolumeBreakdownType = z.infer<typeof VolumeBreakdown>;
+
+/**
+ * Running totals for one slice of a window.
+ */
+class Tally {
+  volumeUsd = 0;
+  transfers = 0;
+  private senders = new Set<string>();
+
+  add(op: WormholescanOperationType): void {
+    this.transfers++;
+
+    const usdAmount = parseFloat(op.data?.usdAmount || "0");
+    if (!isNaN(usdAmount)) {
+      this.volumeUsd += usdAmount;
+    }
+
+    const sender = operationSender(op);
+    if (sender) this.senders.add(sender);
+  }
+
+  stats() {
+    return { volumeUsd: this.volumeUsd, transfers: this.transfers, uniqueSenders: this.senders.size };
+  }
+}
+
+/**
+ * Source address of an operation, keyed by chain so the same address on two
+ * chains counts twice. EVM addresses are lowercased and unpadded.
+ */
+function operationSender(op: WormholescanOperationType): string | null {
+  const properties = op.content?.standarizedProperties;
+  const address = properties?.fromAddress ?? op.sourceChain.from;
+  if (!address) return null;
+
+  const chainId = properties?.fromChain ?? op.sourceChain.chainId;
+  const chain = chainFromWormholeId(chainId);
+  return `${chainId}:${chain ? normalizeTokenAddress(chain, address) : address}`;
+}
+
+function chainLabel(wormholeId: number): string {
+  const chain = chainFromWormholeId(wormholeId);
+  return chain ? formatChainId(chain) : `wormhole:${wormholeId}`;
+}
+
+const byVolume = (a: { volumeUsd: number }, b: { volumeUsd: number }) => b.volumeUsd - a.volumeUsd;
+
+/**
+ * Break a window's operations down by chain pair, asset symbol and
+ * requested route. Operations without a destination chain count towards
+ * the totals and assets but no chain pair; `routes` pairs each requested
+ * route with the operations already matched to it.
+ */
+export function buildVolumeBreakdown(
+  operations: WormholescanOperationType[],
+  routes: Array<{ route: { source: AssetType; destination: AssetType }; operations: WormholescanOperationType[] }>
+): VolumeBreakdownType {
+  const total = new Tally();
+  const chainPairs = new Map<string, { sourceChainId: string; destinationChainId: string; tally: Tally }>();
+  const assets = new Map<string | null, Tally>();
+
+  for (const op of operations) {
+    total.add(op);
+
+    const symbol = op.data?.symbol ?? null;
+    let asset = assets.get(symbol);
+    if (!asset) {
+      asset = new Tally();
+      assets.set(symbol, asset);
+    }
+    asset.add(op);
+
+    const fromChain = op.content?.standarizedProperties?.fromChain ?? op.emitterChain;
+    const toChain = op.content?.standarizedProperties?.toChain;
+    if (toChain === null || toChain === undefined) continue;
+
+    const key = `${fromChain}->${toChain}`;
+    let pair = chainPairs.get(key);
+    if (!pair) {
+      pair = { sourceChainId: chainLabel(fromChain), destinationChainId: chainLabel(toChain), tally: new Tally() };
+      chainPairs.set(key, pair);
+    }
+    pair.tally.add(op);
+  }
+
+  const { transfers, uniqueSenders } = total.stats();
+
+  return {
+    transfers,
+    uniqueSenders,
+    chainPairs: [...chainPairs.values()]
+      .map(({ sourceChainId, destinationChainId, tally }) => ({ sourceChainId, destinationChainId, ...tally.stats() }))
+      .sort(byVolume),
+    assets: [...assets.entries()]
+      .map(([symbol, tally]) => ({ symbol, ...tally.stats() }))
+      .sort(byVolume),
+    routes: routes.map(({ route, operations: routeOperations }) => {
+      const tally = new Tally();
+      for (const op of routeOperations) tally.add(op);
+      return { route, ...tally.stats() };
+    }),
+  };
+}
@@ -0,0 +1,97 @@
+export type CacheStatus = "hit" | "stale" | "miss";
+
+/**
+ * How long a cached value is served: fresh for `ttlMs`, then stale while it
+ * revalidates for up to `staleMs` more. Older values are recomputed before
+ * they are served.
+ */
+export interface CachePolicy {
+  ttlMs: number;
+  staleMs: number;
+}
+
+export interface CachedValue<T> {
+  value: T;
+  status: CacheStatus;
+  // Time since the value was computed
+  ageMs: number;
+}
+
+/**
+ * Stale-while-revalidate cache.
+ *
+ * A fresh value is returned as a hit. A stale value is returned straight
+ * away while a recomputation runs in the background; if that fails, the
+ * stale value stays cached until it expires. Anything else is computed
+ * while the caller waits. Concurrent computations of a key are shared. The
+ * oldest entries are evicted beyond `maxEntries`.
+ */
+export class SwrCache {
+  private entries = new Map<string, { value: unknown; storedAt: number }>();
+  private pending = new Map<string, Promise<unknown>>();
+
+  constructor(private readonly maxEntries: number = 256) {}
+
+  /**
+   * Get the value for `key`, computing it when needed. Computed values that
+   * fail `cacheable` are returned without replacing what is cached.
+   */
+  async get<T>(
+    key: string,
+    policy: CachePolicy,
+    compute: () => Promise<T>,
+    cacheable: (value: T) => boolean = () => true
+  ): Promise<CachedValue<T>> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      const ageMs = Date.now() - entry.storedAt;
+      if (ageMs < policy.ttlMs) {
+        return { value: entry.value as T, status: "hit", ageMs };
+      }
+      if (ageMs < policy.ttlMs + policy.staleMs) {
+        this.revalidate(key, compute, cacheable).catch((error) =>
+          console.warn(`[SwrCache] Revalidation failed, keeping the stale value:`, error)
+        );
+        return { value: entry.value as T, status: "stale", ageMs };
+      }
+    }
+
+    return { value: await this.revalidate(key, compute, cacheable), status: "miss", ageMs: 0 };
+  }
+
+  /**
+   * Number of cached values and the age of the most recently computed one.
+   */
+  get stats(): { entries: number; newestAgeMs: number | null } {
+    let newest: number | null = null;
+    for (const { storedAt } of this.entries.values()) {
+      newest = Math.max(newest ?? storedAt, storedAt);
+    }
+    return { entries: this.entries.size, newestAgeMs: newest === null ? null : Date.now() - newest };
+  }
+
+  private revalidate<T>(key: string, compute: () => Promise<T>, cacheable: (value: T) => boolean): Promise<T> {
+    let pending = this.pending.get(key) as Promise<T> | undefined;
+    if (!pending) {
+      pending = compute()
+        .then((value) => {
+          if (cacheable(value)) this.set(key, value);
+          return value;
+        })
+        .finally(() => this.pending.delete(key));
+      this.pending.set(key, pending);
+    }
+    return pending;
+  }
+
+  private set(key: string, value: unknown): void {
+    // Re-insert so eviction follows the last write
+    this.entries.delete(key);
+    this.entries.set(key, { value, storedAt: Date.now() });
+
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) break;
+      this.entries.delete(oldest);
+    }
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * A chain known to the plugin, with its identifier in every scheme we meet.
+ */
+export interface Chain {
+  // Wormhole chain id, as used by Wormholescan (emitterChain, toChain, ...)
+  wormholeId: number;
+  // Lowercase name, also accepted as an identifier
+  name: string;
+  displayName: string;
+  // EIP-155 chain id for EVM chains
+  evmChainId?: number;
+  // CAIP-2 identifier, e.g. "eip155:1" or "solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp"
+  caip2: string;
+  // Other names callers commonly use for the chain
+  aliases?: string[];
+}
+
+type ChainDefinition = Omit<Chain, "caip2"> & { caip2?: string };
+
+// Wormhole chain ids: https://wormhole.com/docs/products/reference/chain-ids/
+// EVM chains derive their CAIP-2 id from the EIP-155 chain id.
+const CHAIN_DEFINITIONS: ChainDefinition[] = [
+  { wormholeId: 1, name: "solana", displayName: "Solana", caip2: "solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp", aliases: ["sol"] },
+  { wormholeId: 2, name: "ethereum", displayName: "Ethereum", evmChainId: 1, aliases: ["eth", "mainnet"] },
+  { wormholeId: 3, name: "terra", displayName: "Terra Classic", caip2: "cosmos:columbus-5" },
+  { wormholeId: 4, name: "bsc", displayName: "BNB Smart Chain", evmChainId: 56, aliases: ["bnb", "binance"] },
+  { wormholeId: 5, name: "polygon", displayName: "Polygon", evmChainId: 137, aliases: ["matic"] },
+  { wormholeId: 6, name: "avalanche", displayName: "Avalanche", evmChainId: 43114, aliases: ["avax"] },
+  { wormholeId: 7, name: "oasis", displayName: "Oasis Emerald", evmChainId: 42262 },
+  { wormholeId: 8, name: "algorand", displayName: "Algorand", caip2: "algorand:wGHE2Pwdvd7S12BL5FaOP20EGYesN73k" },
+  { wormholeId: 9, name: "aurora", displayName: "Aurora", evmChainId: 1313161554 },
+  { wormholeId: 10, name: "fantom", displayName: "Fantom", evmChainId: 250 },
+  { wormholeId: 11, name: "karura", displayName: "Karura", evmChainId: 686 },
+  { wormholeId: 12, name: "acala", displayName: "Acala", evmChainId: 787 },
+  { wormholeId: 13, name: "klaytn", displayName: "Klaytn", evmChainId: 8217, aliases: ["kaia"] },
+  { wormholeId: 14, name: "celo", displayName: "Celo", evmChainId: 42220 },
+  { wormholeId: 15, name: "near", displayName: "NEAR", caip2: "near:mainnet" },
+  { wormholeId: 16, name: "moonbeam", displayName: "Moonbeam", evmChainId: 1284 },
+  { wormholeId: 18, name: "terra2", displayName: "Terra", caip2: "cosmos:phoenix-1" },
+  { wormholeId: 19, name: "injective", displayName: "Injective", caip2: "cosmos:injective-1" },
+  { wormholeId: 21, name: "sui", displayName: "Sui", caip2: "sui:mainnet" },
+  { wormholeId: 22, name: "aptos", displayName: "Aptos", caip2: "aptos:1" },
+  { wormholeId: 23, name: "arbitrum", displayName: "Arbitrum One", evmChainId: 42161, aliases: ["arb"] },
+  { wormholeId: 24, name: "optimism", displayName: "OP Mainnet", evmChainId: 10, aliases: ["op"] },
+  { wormholeId: 25, name: "gnosis", displayName: "Gnosis", evmChainId: 100, aliases: ["xdai"] },
+  { wormholeId: 30, name: "base", displayName: "Base", evmChainId: 8453 },
+  { wormholeId: 32, name: "sei", displayName: "Sei", caip2: "cosmos:pacific-1" },
+  { wormholeId: 34, name: "scroll", displayName: "Scroll", evmChainId: 534352 },
+  { wormholeId: 35, name: "mantle", displayName: "Mantle", evmChainId: 5000 },
+  { wormholeId: 36, name: "blast", displayName: "Blast", evmChainId: 81457 },
+  { wormholeId: 37, name: "xlayer", displayName: "X Layer", evmChainId: 196 },
+  { wormholeId: 38, name: "linea", displayName: "Linea", evmChainId: 59144 },
+  { wormholeId: 39, name: "berachain", displayName: "Berachain", evmChainId: 80094 },
+  { wormholeId: 40, name: "seievm", displayName: "Sei EVM", evmChainId: 1329 },
+  { wormholeId: 44, name: "unichain", displayName: "Unichain", evmChainId: 130 },
+  { wormholeId: 45, name: "worldchain", displayName: "World Chain", evmChainId: 480 },
+  { wormholeId: 3104, name: "wormchain", displayName: "Wormchain", caip2: "cosmos:wormchain" },
+  { wormholeId: 4000, name: "cosmoshub", displayName: "Cosmos Hub", caip2: "cosmos:cosmoshub-4" },
+  { wormholeId: 4001, name: "evmos", displayName: "Evmos", caip2: "cosmos:evmos_9001-2" },
+  { wormholeId: 4002, name: "kujira", displayName: "Kujira", caip2: "cosmos:kaiyo-1" },
+  { wormholeId: 4003, name: "neutron", displayName: "Neutron", caip2: "cosmos:neutron-1" },
+  { wormholeId: 4004, name: "celestia", displayName: "Celestia", caip2: "cosmos:celestia" },
+];
+
+export const CHAINS: readonly Chain[] = CHAIN_DEFINITIONS.map((chain) => ({
+  ...chain,
+  caip2: chain.caip2 ?? `eip155:${chain.evmChainId}`,
+}));
+
+const byWormholeId = new Map(CHAINS.map((chain) => [chain.wormholeId, chain]));
+const byEvmChainId = new Map(
+  CHAINS.filter((chain) => chain.evmChainId !== undefined).map((chain) => [chain.evmChainId!, chain])
+);
+const byCaip2 = new Map(CHAINS.map((chain) => [chain.caip2.toLowerCase(), chain]));
+const byName = new Map(
+  CHAINS.flatMap((chain) => [chain.name, ...(chain.aliases ?? [])].map((name) => [name, chain] as const))
+);
+
+/**
+ * Resolve a chain identifier in any supported form:
+ * - EVM chain id: "1", "137"
+ * - CAIP-2: "eip155:137", "solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp"
+ * - Wormhole chain id: "wormhole:5"
+ * - Name or alias: "polygon", "Arbitrum"
+ *
+ * Bare numbers are always EVM chain ids; Wormhole ids need the prefix since
+ * the two ranges overlap (Wormhole 1 is Solana, EVM 1 is Ethereum).
+ */
+export function resolveChain(chainId: string): Chain | null {
+  const value = chainId.trim().toLowerCase();
+
+  if (/^\d+$/.test(value)) {
+    return byEvmChainId.get(Number(value)) ?? null;
+  }
+
+  const wormhole = /^wormhole:(\d+)$/.exec(value);
+  if (wormhole) {
+    return byWormholeId.get(Number(wormhole[1])) ?? null;
+  }
+
+  return byCaip2.get(value) ?? byName.get(value) ?? null;
+}
+
+export function chainFromWormholeId(wormholeId: number): Chain | null {
+  return byWormholeId.get(wormholeId) ?? null;
+}
+
+export function isKnownChainId(chainId: string): boolean {
+  return resolveChain(chainId) !== null;
+}
+
+/**
+ * Canonical identifier reported for a chain: the EVM chain id for EVM chains
+ * (what most callers send), the CAIP-2 id otherwise.
+ */
+export function formatChainId(chain: Chain): string {
+  return chain.evmChainId !== undefined ? String(chain.evmChainId) : chain.caip2;
+}
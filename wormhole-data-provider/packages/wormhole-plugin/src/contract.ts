@@ -1,17 +1,31 @@
 import { CommonPluginErrors } from "every-plugin";
-import { oc } from "every-plugin/orpc";
+import { eventIterator, oc } from "every-plugin/orpc";
 import { z } from "every-plugin/zod";
 
+import { isKnownChainId } from "./chains";
+import { INTERVAL_MS } from "./windows";
+
 // --- Schemas ---
 
 // Asset represents a token/asset on a specific chain
 export const Asset = z.object({
-  chainId: z.string(),
+  // EVM chain id ("137"), CAIP-2 ("eip155:137"), Wormhole id ("wormhole:5") or name ("polygon")
+  chainId: z.string().refine(isKnownChainId, "Unknown chain"),
   assetId: z.string(), // e.g., ERC-20 address or canonical symbol id
   symbol: z.string(),
   decimals: z.number().int().min(0),
 });
 
+// Where a metric came from and how far to trust it
+export const Provenance = z.object({
+  source: z.enum(["wormholescan-operations", "fee-model", "assumed"]),
+  sampleSize: z.number().int().min(0), // operations the metric was computed from
+  coveredFrom: z.iso.datetime().nullable(), // time range of the data behind the metric
+  coveredTo: z.iso.datetime().nullable(),
+  fallbackUsed: z.boolean(),
+  confidence: z.number().min(0).max(1),
+});
+
 // Rate represents a quote for swapping from source to destination asset
 export const Rate = z.object({
   source: Asset,
@@ -20,64 +34,249 @@ export const Rate = z.object({
   amountOut: z.string(), // in destination smallest units
   effectiveRate: z.number().describe("amountOut/amountIn normalized for decimals"),
   totalFeesUsd: z.number().nullable(),
+  // fee-model: modelled relayer fee + destination gas; historical: derived from
+  // recent transfers; assumed: flat fee when neither could quote
+  quoteSource: z.enum(["fee-model", "historical", "assumed"]),
+  protocol: z.enum(["cctp", "ntt", "portal"]).nullable(), // set by the fee model
   quotedAt: z.iso.datetime(),
+  provenance: Provenance,
 });
 
 // Liquidity depth point for a specific slippage threshold
 export const LiquidityDepthPoint = z.object({
-  maxAmountIn: z.string(), // source units
+  maxAmountIn: z.string().nullable(), // source units; null when nothing bounds it within the probe range
   slippageBps: z.number(), // e.g., 50 = 0.5%
+  // What bounds maxAmountIn: the threshold, or the most the quote source quotes per transfer
+  limitedBy: z.enum(["slippage", "transfer-limit"]).nullable(),
 });
 
 // Liquidity depth for a route at different slippage thresholds
 export const LiquidityDepth = z.object({
   route: z.object({ source: Asset, destination: Asset }),
-  thresholds: z.array(LiquidityDepthPoint), // include 50 and 100 bps at minimum
+  thresholds: z.array(LiquidityDepthPoint), // one per requested threshold; 50 and 100 bps by default
   measuredAt: z.iso.datetime(),
+  provenance: Provenance,
+});
+
+// Trailing volume window ending now; "mtd" runs from the start of the UTC month
+export const VolumeWindowPreset = z.enum(["1h", "24h", "7d", "30d", "90d", "mtd"]);
+
+// Explicit volume window: operations at or after `from` and before `to`
+export const VolumeTimeRange = z.object({
+  from: z.iso.datetime(),
+  to: z.iso.datetime(),
+}).refine((range) => Date.parse(range.from) < Date.parse(range.to), "Expected from to be before to");
+
+export const VolumeWindowSpec = z.union([VolumeWindowPreset, VolumeTimeRange]);
+
+// Flow through one slice of a volume window
+const VolumeStats = {
+  volumeUsd: z.number(),
+  transfers: z.number().int().min(0),
+  uniqueSenders: z.number().int().min(0), // distinct source addresses
+};
+
+// Where a window's volume went, each list sorted by volume descending
+export const VolumeBreakdown = z.object({
+  transfers: z.number().int().min(0),
+  uniqueSenders: z.number().int().min(0),
+  chainPairs: z.array(z.object({
+    sourceChainId: z.string(), // canonical id, "wormhole:<id>" for unlisted chains
+    destinationChainId: z.string(),
+    ...VolumeStats,
+  })),
+  assets: z.array(z.object({
+    symbol: z.string().nullable(), // null when Wormholescan did not identify the token
+    ...VolumeStats,
+  })),
+  routes: z.array(z.object({ // one per requested route, in request order
+    route: z.object({ source: Asset, destination: Asset }),
+    ...VolumeStats,
+  })),
 });
 
 // Volume metrics for a time window
 export const VolumeWindow = z.object({
-  window: z.enum(["24h", "7d", "30d"]),
+  window: VolumeWindowSpec, // as requested
+  from: z.iso.datetime(), // resolved range the total covers
+  to: z.iso.datetime(),
   volumeUsd: z.number(),
   measuredAt: z.iso.datetime(),
+  provenance: Provenance,
+  breakdown: VolumeBreakdown.optional(), // when requested with includeBreakdown
+});
+
+// Volume in one bucket of a series
+export const VolumeBucket = z.object({
+  start: z.iso.datetime(), // bucket boundaries, aligned to UTC hours or days
+  end: z.iso.datetime(),
+  volumeUsd: z.number(),
+  transfers: z.number().int().min(0),
+});
+
+// Bucketed volume over a window, oldest bucket first
+export const VolumeSeries = z.object({
+  window: VolumeWindowSpec, // as requested
+  from: z.iso.datetime(), // resolved range the series covers
+  to: z.iso.datetime(),
+  interval: z.enum(["hour", "day"]),
+  buckets: z.array(VolumeBucket),
+  measuredAt: z.iso.datetime(),
+  provenance: Provenance,
+});
+
+// Asset listed by the provider; decimals are null when they could not be resolved
+export const ListedAsset = Asset.extend({
+  decimals: z.number().int().min(0).nullable(),
+  decimalsSource: z.enum(["wormholescan", "token-list", "unknown"]),
 });
 
 // Assets listed by the provider
 export const ListedAssets = z.object({
-  assets: z.array(Asset),
+  assets: z.array(ListedAsset),
   measuredAt: z.iso.datetime(),
 });
 
-// Complete snapshot of provider data
+// Upstream payload health: Wormholescan records skipped because they failed to decode
+export const Diagnostics = z.object({
+  operationsDecoded: z.number().int().min(0),
+  operationsMalformed: z.number().int().min(0),
+  issues: z.array(z.object({
+    issue: z.string(), // "path: message"
+    count: z.number().int().min(1),
+  })),
+});
+
+// How a snapshot section was served: "hit" (fresh), "stale" (recomputing in
+// the background) or "miss" (computed for this request)
+export const CacheInfo = z.object({
+  status: z.enum(["hit", "stale", "miss"]),
+  ageMs: z.number().int().min(0), // since the section was computed
+  ttlMs: z.number().int().min(0), // how long it is served as fresh
+});
+
+export const SnapshotCacheInfo = z.object({
+  volumes: CacheInfo,
+  rates: CacheInfo,
+  liquidity: CacheInfo,
+  listedAssets: CacheInfo,
+});
+
+// Something a snapshot could not provide. `route`, `notional` and `window`
+// identify what failed; none are set when the whole section failed
+export const SnapshotError = z.object({
+  section: z.enum(["volumes", "rates", "liquidity", "listedAssets"]),
+  route: z.object({ source: Asset, destination: Asset }).optional(),
+  notional: z.string().optional(),
+  window: VolumeWindowSpec.optional(),
+  code: z.string(), // e.g. "WormholeTimeoutError", or "UnknownChain" for a route off the chain registry
+  message: z.string(),
+  retryable: z.boolean(),
+});
+
+// Snapshot of provider data; sections hold whatever could be computed
 export const ProviderSnapshot = z.object({
   volumes: z.array(VolumeWindow),
   rates: z.array(Rate),
   liquidity: z.array(LiquidityDepth),
-  listedAssets: ListedAssets,
+  listedAssets: ListedAssets.nullable(), // null when the asset list failed
+  diagnostics: Diagnostics,
+  complete: z.boolean(), // false when anything is missing, see `errors`
+  errors: z.array(SnapshotError),
+  cache: SnapshotCacheInfo,
 });
 
+// Health of the provider: "degraded" while it serves data but something is
+// wrong (stale data, upstream slow or rate limiting), "down" when it has no
+// data to serve
+export const Health = z.object({
+  status: z.enum(["ok", "degraded", "down"]),
+  timestamp: z.string().datetime(),
+  upstream: z.object({
+    reachable: z.boolean(), // Wormholescan answered (a 429 counts)
+    latencyMs: z.number().int().min(0).nullable(), // null when not probed or unreachable
+    error: z.string().nullable(),
+  }),
+  lastSyncAt: z.string().datetime().nullable(), // start of the last successful sync
+  rateLimiter: z.object({
+    saturation: z.number().min(0).max(1), // share of capacity in use
+    queued: z.number().int().min(0),
+    inFlight: z.number().int().min(0),
+    pausedForMs: z.number().int().min(0), // Retry-After back-off left
+  }),
+  cacheAgeMs: z.number().int().min(0).nullable(), // since the snapshot cache last computed a section
+});
+
+// Streamed by streamSnapshot: each part of a snapshot as soon as it is
+// computed, then a summary
+export const SnapshotEvent = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("volume"), volume: VolumeWindow }),
+  z.object({ type: z.literal("rate"), rate: Rate }),
+  z.object({ type: z.literal("liquidity"), liquidity: LiquidityDepth }),
+  z.object({ type: z.literal("listedAssets"), listedAssets: ListedAssets }),
+  z.object({ type: z.literal("error"), error: SnapshotError }),
+  z.object({
+    type: z.literal("summary"),
+    complete: z.boolean(),
+    diagnostics: Diagnostics,
+    cache: SnapshotCacheInfo,
+  }),
+]);
+
 // --- Contract ---
 
+// Largest series a single request may ask for (90 days of hourly buckets)
+const MAX_SERIES_BUCKETS = 2160;
+
+const SnapshotInput = z.object({
+  routes: z.array(z.object({ source: Asset, destination: Asset })).min(1),
+  notionals: z.array(z.string().regex(/^\d+$/, "Expected an integer amount")).min(1), // amounts in source units to quote
+  includeWindows: z.array(VolumeWindowSpec)
+    .default(["24h"]).optional(),
+  includeBreakdown: z.boolean().optional(), // add a per chain pair, asset and route breakdown to each volume window
+  // Liquidity depth thresholds in bps, returned ascending without duplicates
+  slippageBpsThresholds: z.array(z.number().int().min(1).max(9999))
+    .min(1).max(16)
+    .transform((thresholds) => [...new Set(thresholds)].sort((a, b) => a - b))
+    .optional(),
+  // Fail with a timeout instead of running longer than this, in ms; unbounded by default
+  deadlineMs: z.number().int().min(100).max(300_000).optional(),
+});
+
 export const contract = oc.router({
   // Main endpoint - get complete snapshot for routes and notionals
   getSnapshot: oc
     .route({ method: "GET", path: "/snapshot" })
-    .input(z.object({
-      routes: z.array(z.object({ source: Asset, destination: Asset })).min(1),
-      notionals: z.array(z.string()).min(1), // amounts in source units to quote
-      includeWindows: z.array(z.enum(["24h", "7d", "30d"]))
-        .default(["24h"]).optional(),
-    }))
+    .input(SnapshotInput)
     .output(ProviderSnapshot)
     .errors(CommonPluginErrors),
 
+  // The same snapshot, streamed part by part as each is computed
+  streamSnapshot: oc
+    .route({ method: "GET", path: "/snapshot/stream" })
+    .input(SnapshotInput)
+    .output(eventIterator(SnapshotEvent))
+    .errors(CommonPluginErrors),
+
+  // Volume over time, bucketed hourly or daily, optionally for one route or asset
+  getVolumeSeries: oc
+    .route({ method: "GET", path: "/volume-series" })
+    .input(z.object({
+      window: VolumeWindowSpec.default("7d").optional(),
+      interval: z.enum(["hour", "day"]).default("day").optional(),
+      route: z.object({ source: Asset, destination: Asset }).optional(), // transfers of the source asset between the route's chains
+      symbol: z.string().min(1).optional(), // transfers of this token symbol
+    }).refine(
+      (input) => typeof input.window !== "object" ||
+        Date.parse(input.window.to) - Date.parse(input.window.from) <= MAX_SERIES_BUCKETS * INTERVAL_MS[input.interval ?? "day"],
+      `Expected at most ${MAX_SERIES_BUCKETS} buckets`
+    ))
+    .output(VolumeSeries)
+    .errors(CommonPluginErrors),
+
   // Health check procedure
   ping: oc
     .route({ method: 'GET', path: '/ping' })
-    .output(z.object({
-      status: z.literal('ok'),
-      timestamp: z.string().datetime(),
-    }))
+    .output(Health)
     .errors(CommonPluginErrors),
 });
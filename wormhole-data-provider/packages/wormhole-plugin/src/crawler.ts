@@ -0,0 +1,121 @@
+import type { HttpClient } from "./http";
+import {
+  type DecodeDiagnostics,
+  type WormholescanOperationType,
+  decodeOperationsPage,
+  emptyDiagnostics,
+  mergeDiagnostics,
+} from "./wormholescan";
+
+/**
+ * Wormholescan rejects page sizes above 100 on the operations endpoint.
+ */
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * Result of crawling the operations endpoint back to a point in time.
+ */
+export interface CrawlResult {
+  operations: WormholescanOperationType[];
+  pagesFetched: number;
+  // false when the crawl stopped at maxPages before passing the boundary
+  reachedBoundary: boolean;
+  diagnostics: DecodeDiagnostics;
+}
+
+/**
+ * Returns the source-chain timestamp of an operation in epoch milliseconds,
+ * or null when the operation carries no usable timestamp.
+ */
+export function getOperationTime(op: WormholescanOperationType): number | null {
+  const timestamp = op.sourceChain?.timestamp;
+  if (!timestamp) return null;
+
+  const time = new Date(timestamp).getTime();
+  return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * Pages through Wormholescan operations (newest first) until the crawl passes
+ * a time boundary, deduplicating operations by id.
+ *
+ * Operations shift between pages while new ones are indexed, so the same
+ * operation can show up on two consecutive pages; the id map absorbs that.
+ * Records that fail to decode are skipped and counted in the diagnostics.
+ */
+export class OperationsCrawler {
+  constructor(
+    private readonly http: HttpClient,
+    private readonly maxPages: number = 200,
+    private readonly pageSize: number = MAX_PAGE_SIZE
+  ) {}
+
+  /**
+   * Fetch every operation whose source timestamp is at or after `since`.
+   * With `to`, the crawl starts from the operations at or before it instead
+   * of the newest, continuing one that stopped short of `since`.
+   * Aborting `signal` cancels the page in flight and fails the crawl.
+   */
+  async crawl(since: number, signal?: AbortSignal, to?: number): Promise<CrawlResult> {
+    const pageSize = Math.min(this.pageSize, MAX_PAGE_SIZE);
+    const seen = new Map<string, WormholescanOperationType>();
+    const diagnostics = emptyDiagnostics();
+    let pagesFetched = 0;
+    let reachedBoundary = false;
+
+    for (let page = 0; page < this.maxPages; page++) {
+      const { operations, diagnostics: pageDiagnostics } = await this.fetchPage(page, pageSize, to, signal);
+      const recordCount = pageDiagnostics.decoded + pageDiagnostics.malformed;
+      mergeDiagnostics(diagnostics, pageDiagnostics);
+      pagesFetched++;
+
+      let oldest = Number.POSITIVE_INFINITY;
+      for (const op of operations) {
+        const opTime = getOperationTime(op);
+        if (opTime === null) continue;
+
+        oldest = Math.min(oldest, opTime);
+        if (opTime >= since && (to === undefined || opTime <= to) && !seen.has(op.id)) {
+          seen.set(op.id, op);
+        }
+      }
+
+      // A short page is the end of the dataset; an old page is past the window
+      if (recordCount < pageSize || oldest < since) {
+        reachedBoundary = true;
+        break;
+      }
+    }
+
+    if (!reachedBoundary) {
+      console.warn(
+        `[OperationsCrawler] Stopped after ${pagesFetched} pages before reaching ${new Date(since).toISOString()}`
+      );
+    }
+
+    if (diagnostics.malformed > 0) {
+      console.warn(
+        `[OperationsCrawler] Skipped ${diagnostics.malformed} malformed operations:`,
+        diagnostics.issues
+      );
+    }
+
+    return {
+      operations: Array.from(seen.values()),
+      pagesFetched,
+      reachedBoundary,
+      diagnostics,
+    };
+  }
+
+  private async fetchPage(page: number, pageSize: number, to: number | undefined, signal?: AbortSignal) {
+    const data = await this.http.getJson("/operations", {
+      page,
+      pageSize,
+      sortOrder: "DESC",
+      to: to === undefined ? undefined : new Date(to).toISOString(),
+    }, { signal });
+
+    return decodeOperationsPage(data);
+  }
+}
@@ -0,0 +1,337 @@
+import { type CrawlResult, type OperationsCrawler, getOperationTime } from "./crawler";
+import type { OperationsStore, SyncState } from "./store";
+import {
+  type DecodeDiagnostics,
+  type WormholescanOperationType,
+  emptyDiagnostics,
+  mergeDiagnostics,
+} from "./wormholescan";
+
+/**
+ * A window of crawled operations shared by every metric in a snapshot.
+ */
+export interface OperationsWindow {
+  // Newest first
+  operations: WormholescanOperationType[];
+  since: number;
+  // Start of the last successful sync: the window is complete up to here
+  syncedAt: number;
+  reachedBoundary: boolean;
+  // true when the latest sync failed and the window was served from storage
+  stale: boolean;
+  // Decode diagnostics of the last sync
+  diagnostics: DecodeDiagnostics;
+}
+
+// A sync in progress and how many callers are waiting on it
+interface InflightSync {
+  since: number;
+  // Whether it crawls what is new, or only further back
+  latest: boolean;
+  promise: Promise<void>;
+  controller: AbortController;
+  waiters: number;
+}
+
+// Re-crawl this far behind the last sync for operations indexed late
+const SYNC_OVERLAP_MS = 10 * 60 * 1000;
+
+// Operations older than this are dropped unless a load asks for them; the
+// longest preset window is 90 days
+const RETENTION_MS = 95 * 24 * 60 * 60 * 1000;
+
+/**
+ * Operations dataset backed by the crawler, optionally persisted in a store.
+ *
+ * Every metric in a snapshot reads from the same window instead of issuing
+ * its own `/operations` requests. Stored operations are reused while the
+ * last sync is younger than the TTL and reaches back far enough, or a sync
+ * within the TTL already crawled as far back as it could. Otherwise a sync
+ * crawls only what is new since the last one and, when the stored range
+ * does not reach `since`, continues back from its oldest covered operation.
+ * Concurrent loads share a single in-flight sync. When a sync fails, the
+ * stored operations are served as a stale window rather than failing, as
+ * long as there are any.
+ *
+ * Aborting the `signal` of a load stops that caller waiting. The sync itself,
+ * with its request in flight, is cancelled once every caller waiting on it
+ * has aborted.
+ */
+export class OperationsDataset {
+  private operations = new Map<string, WormholescanOperationType>();
+  private state: SyncState = { coveredFrom: null, syncedAt: null };
+  private diagnostics: DecodeDiagnostics = emptyDiagnostics();
+  private hydration: Promise<void> | null = null;
+  private inflight: InflightSync | null = null;
+  private lastSyncFailed = false;
+  // The furthest back a recent sync set out to crawl, and when it started
+  private sought: { since: number; at: number } | null = null;
+
+  constructor(
+    private readonly crawler: OperationsCrawler,
+    private readonly ttlMs: number = 30_000,
+    private readonly store: OperationsStore | null = null
+  ) {}
+
+  /**
+   * Load every operation at or after `since`, syncing only when the stored
+   * operations are stale or do not reach back far enough. While they are
+   * fresh, a sync only continues back towards `since`, and not at all when
+   * a sync within the TTL already went as far back as it could.
+   */
+  async load(since: number, signal?: AbortSignal): Promise<OperationsWindow> {
+    await (this.hydration ??= this.hydrate());
+
+    const { syncedAt } = this.state;
+    const fresh = syncedAt !== null && Date.now() - syncedAt < this.ttlMs;
+    if (fresh && (this.covers(since) || this.soughtRecently(since))) {
+      return this.window(since, false);
+    }
+
+    try {
+      await this.join(since, !fresh, signal);
+      return this.window(since, false);
+    } catch (error) {
+      // A caller that gave up has no use for stale operations
+      if (signal?.aborted || this.state.syncedAt === null) throw error;
+
+      console.warn(
+        `[OperationsDataset] Sync failed, serving ${this.operations.size} stored operations synced at ${new Date(this.state.syncedAt).toISOString()}:`,
+        error
+      );
+      return this.window(since, true);
+    }
+  }
+
+  /**
+   * Sync now, however recent the last sync, making sure the dataset reaches
+   * back to `since`. Joins an in-flight sync that reaches back far enough.
+   */
+  async refresh(since: number, signal?: AbortSignal): Promise<void> {
+    await (this.hydration ??= this.hydrate());
+    await this.join(since, true, signal);
+  }
+
+  /**
+   * Wait for a sync reaching back to `since`, and crawling what is new when
+   * `latest` is set, starting one unless such a sync is in flight.
+   */
+  private async join(since: number, latest: boolean, signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted();
+
+    if (!this.inflight || this.inflight.since > since || (latest && !this.inflight.latest)) {
+      const controller = new AbortController();
+      const promise = this.sync(since, latest, controller.signal);
+      this.inflight = { since, latest, promise, controller, waiters: 0 };
+      promise.then(
+        () => this.clearInflight(promise),
+        () => this.clearInflight(promise)
+      );
+    }
+
+    const inflight = this.inflight;
+    inflight.waiters++;
+    try {
+      await untilAborted(inflight.promise, signal);
+    } finally {
+      inflight.waiters--;
+      if (signal?.aborted && inflight.waiters === 0) {
+        // Later callers start over instead of joining a cancelled sync
+        this.clearInflight(inflight.promise);
+        inflight.controller.abort(signal.reason);
+      }
+    }
+  }
+
+  /**
+   * When the last successful sync started, and whether a sync has failed
+   * since then.
+   */
+  get syncHealth(): { syncedAt: number | null; lastSyncFailed: boolean } {
+    return { syncedAt: this.state.syncedAt, lastSyncFailed: this.lastSyncFailed };
+  }
+
+  /**
+   * Decode diagnostics of the last sync.
+   */
+  get lastDiagnostics(): DecodeDiagnostics {
+    return this.diagnostics;
+  }
+
+  /**
+   * Forget the last sync time so the next load syncs again.
+   */
+  invalidate(): void {
+    this.state = { ...this.state, syncedAt: null };
+  }
+
+  private async hydrate(): Promise<void> {
+    if (!this.store) return;
+
+    try {
+      const stored = await this.store.read();
+      if (!stored) return;
+
+      for (const op of stored.operations) {
+        this.operations.set(op.id, op);
+      }
+      this.state = stored.state;
+      console.log(`[OperationsDataset] Loaded ${stored.operations.length} stored operations`);
+    } catch (error) {
+      console.error(`[OperationsDataset] Failed to read the operations store, starting empty:`, error);
+    }
+  }
+
+  /**
+   * Crawl what is new since the last sync (less an overlap) when `latest`
+   * is set, then continue back from the oldest covered operation when the
+   * covered range does not reach `since`, and merge the result. A dataset
+   * that has never synced crawls back to `since` from the newest operation.
+   * Coverage extends when a crawl meets the covered range and restarts from
+   * the crawl otherwise.
+   *
+   * A sync reaching further back can start while another is in flight, and
+   * either may finish first, so coverage is merged with the state as it is
+   * when the crawls complete rather than as it was when they started.
+   */
+  private async sync(since: number, latest: boolean, signal: AbortSignal): Promise<void> {
+    const startedAt = Date.now();
+    const { coveredFrom, syncedAt } = this.state;
+    const results: CrawlResult[] = [];
+    let covered: { from: number; to: number };
+
+    try {
+      if (coveredFrom === null || syncedAt === null) {
+        const result = await this.crawler.crawl(since, signal);
+        results.push(result);
+        covered = { from: crawledFrom(result, since, startedAt), to: startedAt };
+      } else {
+        covered = { from: coveredFrom, to: syncedAt };
+        if (latest) {
+          const crawlSince = Math.max(since, syncedAt - SYNC_OVERLAP_MS);
+          const result = await this.crawler.crawl(crawlSince, signal);
+          results.push(result);
+          const from = crawledFrom(result, crawlSince, startedAt);
+          covered = { from: from <= syncedAt ? Math.min(coveredFrom, from) : from, to: startedAt };
+        }
+        if (covered.from > since) {
+          const result = await this.crawler.crawl(since, signal, covered.from);
+          results.push(result);
+          covered = { from: crawledFrom(result, since, covered.from), to: covered.to };
+        }
+      }
+    } catch (error) {
+      // A cancelled sync says nothing about Wormholescan
+      if (!signal.aborted) this.lastSyncFailed = true;
+      throw error;
+    }
+
+    // Keep whatever this load asked for, even past the retention period
+    const retainSince = Math.min(startedAt - RETENTION_MS, since);
+
+    const added = results.flatMap((result) => result.operations);
+    for (const op of added) {
+      this.operations.set(op.id, op);
+    }
+    for (const [id, op] of this.operations) {
+      if ((getOperationTime(op) ?? 0) < retainSince) this.operations.delete(id);
+    }
+
+    const current = this.state;
+    if (current.coveredFrom !== null && current.syncedAt !== null) {
+      if (covered.from <= current.syncedAt && current.coveredFrom <= covered.to) {
+        covered = {
+          from: Math.min(current.coveredFrom, covered.from),
+          to: Math.max(current.syncedAt, covered.to),
+        };
+      } else if (current.syncedAt > covered.to) {
+        // A later sync already restarted coverage past this crawl
+        covered = { from: current.coveredFrom, to: current.syncedAt };
+      }
+    }
+
+    this.state = {
+      coveredFrom: Math.max(covered.from, retainSince),
+      syncedAt: covered.to,
+    };
+    if (!this.soughtRecently(since)) {
+      this.sought = { since, at: startedAt };
+    }
+    this.diagnostics = results.reduce(
+      (diagnostics, result) => mergeDiagnostics(diagnostics, result.diagnostics),
+      emptyDiagnostics()
+    );
+    this.lastSyncFailed = false;
+
+    if (this.store) {
+      try {
+        await this.store.write(added, this.state, Array.from(this.operations.values()));
+      } catch (error) {
+        console.error(`[OperationsDataset] Failed to persist operations:`, error);
+      }
+    }
+  }
+
+  // Whether a sync started within the TTL set out to reach back to `since`
+  private soughtRecently(since: number): boolean {
+    return this.sought !== null && this.sought.since <= since && Date.now() - this.sought.at < this.ttlMs;
+  }
+
+  private covers(since: number): boolean {
+    return this.state.coveredFrom !== null && this.state.coveredFrom <= since;
+  }
+
+  private clearInflight(promise: Promise<void>): void {
+    if (this.inflight?.promise === promise) {
+      this.inflight = null;
+    }
+  }
+
+  private window(since: number, stale: boolean): OperationsWindow {
+    const operations: Array<{ op: WormholescanOperationType; time: number }> = [];
+    for (const op of this.operations.values()) {
+      const time = getOperationTime(op);
+      if (time !== null && time >= since) operations.push({ op, time });
+    }
+    operations.sort((a, b) => b.time - a.time);
+
+    return {
+      operations: operations.map(({ op }) => op),
+      since,
+      syncedAt: this.state.syncedAt!,
+      reachedBoundary: this.covers(since),
+      stale,
+      diagnostics: this.diagnostics,
+    };
+  }
+}
+
+/**
+ * How far back a crawl is complete: to its boundary, or else to its oldest
+ * operation (`newest` when it found none).
+ */
+function crawledFrom(result: CrawlResult, since: number, newest: number): number {
+  if (result.reachedBoundary) return since;
+
+  let from = newest;
+  for (const op of result.operations) {
+    from = Math.min(from, getOperationTime(op) ?? from);
+  }
+  return from;
+}
+
+/**
+ * Wait for `promise`, rejecting with the abort reason as soon as `signal`
+ * aborts.
+ */
+function untilAborted<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    if (signal.aborted) return onAbort();
+
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
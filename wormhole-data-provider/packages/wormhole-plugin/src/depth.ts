@@ -0,0 +1,135 @@
+/**
+ * Quote for `amountIn` source smallest units: destination smallest units
+ * received, or null when the amount cannot be quoted.
+ */
+export type QuoteAt = (amountIn: bigint) => Promise<bigint | null>;
+
+/**
+ * What bounds a depth estimate: the slippage threshold, or the largest
+ * amount the source quotes at all (for the fee model, the protocol's
+ * transfer limit).
+ */
+export type DepthLimit = "slippage" | "transfer-limit";
+
+export interface DepthEstimate {
+  slippageBps: number;
+  // Largest amount (source smallest units) the source quotes within the
+  // slippage threshold, or null when neither bounds it
+  maxAmountIn: bigint | null;
+  // null with maxAmountIn
+  limitedBy: DepthLimit | null;
+}
+
+export interface DepthSearchOptions {
+  // Doublings of an amount before giving up on finding a limit
+  maxDoublings?: number;
+  // Stop bisecting once the bracket is narrower than this share of its lower end
+  precisionBps?: number;
+}
+
+const BPS = 10_000n;
+
+/**
+ * Estimate liquidity depth along the route's slippage curve.
+ *
+ * Fixed fees make small amounts look expensive and larger ones ever cheaper,
+ * which is not slippage. So the reference amount is doubled from `smallest`
+ * until its quote covers the fees, and slippage at an amount is how much
+ * worse the rate of its part above the reference is than the marginal rate
+ * just above it (between the reference and twice it); fixed fees cancel
+ * out of both. For each threshold the amount is doubled until a quote
+ * exceeds the threshold, then bisected between the last good and first bad
+ * amount. Quotes are memoized across thresholds, so adding thresholds costs
+ * only a few extra probes.
+ *
+ * A source that stops quoting before the threshold is crossed bounds the
+ * amount just the same: the search bisects to the largest amount it quotes,
+ * reported as limited by the transfer limit rather than slippage. A
+ * threshold has no depth (null) when the rate never degraded within the
+ * probe ceiling, or no amount covered the fees.
+ */
+export async function estimateDepth(
+  quoteAt: QuoteAt,
+  smallest: bigint,
+  thresholds: number[],
+  options: DepthSearchOptions = {}
+): Promise<DepthEstimate[]> {
+  const maxDoublings = options.maxDoublings ?? 40;
+  const precisionBps = BigInt(options.precisionBps ?? 10);
+
+  const quotes = new Map<bigint, Promise<bigint | null>>();
+  const quote = (amount: bigint) => {
+    let cached = quotes.get(amount);
+    if (!cached) {
+      cached = quoteAt(amount);
+      quotes.set(amount, cached);
+    }
+    return cached;
+  };
+
+  const noDepth = () =>
+    thresholds.map((slippageBps): DepthEstimate => ({ slippageBps, maxAmountIn: null, limitedBy: null }));
+  if (smallest <= 0n) return noDepth();
+
+  let reference = smallest;
+  let referenceOut = await quote(reference);
+  for (let i = 0; referenceOut !== null && referenceOut <= 0n && i < maxDoublings; i++) {
+    reference *= 2n;
+    referenceOut = await quote(reference);
+  }
+  if (referenceOut === null || referenceOut <= 0n) return noDepth();
+
+  // Output of the `reference` units above the reference amount
+  const baseline = reference * 2n;
+  const baselineOut = await quote(baseline);
+  if (baselineOut === null || baselineOut <= referenceOut) return noDepth();
+  const marginalOut = baselineOut - referenceOut;
+
+  // Rate above the reference >= marginal rate * (1 - bps), cross-multiplied
+  // to stay in integers; null when the amount cannot be quoted
+  const withinSlippage = async (amount: bigint, slippageBps: number) => {
+    const amountOut = await quote(amount);
+    if (amountOut === null) return null;
+    return (amountOut - referenceOut) * reference * BPS >= marginalOut * (amount - reference) * (BPS - BigInt(slippageBps));
+  };
+
+  const estimates: DepthEstimate[] = [];
+  for (const slippageBps of thresholds) {
+    let low = baseline;
+    let ceiling: bigint | null = null;
+    // Why the lowest amount known to be out of bounds is
+    let limitedBy: DepthLimit = "slippage";
+
+    for (let i = 0; i < maxDoublings; i++) {
+      const next = low * 2n;
+      const within = await withinSlippage(next, slippageBps);
+      if (within !== true) {
+        ceiling = next;
+        limitedBy = within === null ? "transfer-limit" : "slippage";
+        break;
+      }
+      low = next;
+    }
+
+    if (ceiling === null) {
+      estimates.push({ slippageBps, maxAmountIn: null, limitedBy: null });
+      continue;
+    }
+
+    let high: bigint = ceiling;
+    while (high - low > 1n && (high - low) * BPS > low * precisionBps) {
+      const middle: bigint = (low + high) / 2n;
+      const within = await withinSlippage(middle, slippageBps);
+      if (within === true) {
+        low = middle;
+      } else {
+        high = middle;
+        limitedBy = within === null ? "transfer-limit" : "slippage";
+      }
+    }
+
+    estimates.push({ slippageBps, maxAmountIn: low, limitedBy });
+  }
+
+  return estimates;
+}
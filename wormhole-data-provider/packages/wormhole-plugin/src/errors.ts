@@ -0,0 +1,69 @@
+import { PluginConfigurationError } from "every-plugin";
+import { Data } from "every-plugin/effect";
+
+/**
+ * Wormholescan answered 429. `retryAfterMs` comes from the Retry-After header.
+ */
+export class WormholeRateLimitError extends Data.TaggedError("WormholeRateLimitError")<{
+  readonly message: string;
+  readonly retryAfterMs: number;
+}> {}
+
+/**
+ * A request did not complete within its timeout.
+ */
+export class WormholeTimeoutError extends Data.TaggedError("WormholeTimeoutError")<{
+  readonly message: string;
+  readonly timeoutMs: number;
+}> {}
+
+/**
+ * Wormholescan was unreachable or answered with a non-2xx status.
+ */
+export class WormholeUpstreamError extends Data.TaggedError("WormholeUpstreamError")<{
+  readonly message: string;
+  readonly status?: number;
+  readonly retryable: boolean;
+  readonly cause?: unknown;
+}> {}
+
+/**
+ * Wormholescan answered with a payload we could not decode.
+ */
+export class WormholeDecodeError extends Data.TaggedError("WormholeDecodeError")<{
+  readonly message: string;
+  readonly issues?: ReadonlyArray<string>;
+}> {}
+
+export type WormholeError =
+  | WormholeRateLimitError
+  | WormholeTimeoutError
+  | WormholeUpstreamError
+  | WormholeDecodeError;
+
+export type WormholeServiceError = WormholeError | PluginConfigurationError;
+
+export function isWormholeError(error: unknown): error is WormholeError {
+  return (
+    error instanceof WormholeRateLimitError ||
+    error instanceof WormholeTimeoutError ||
+    error instanceof WormholeUpstreamError ||
+    error instanceof WormholeDecodeError
+  );
+}
+
+/**
+ * Normalise anything thrown while talking to Wormholescan into the error
+ * channel: typed errors pass through, everything else becomes an upstream error.
+ */
+export function toWormholeError(error: unknown): WormholeServiceError {
+  if (isWormholeError(error) || error instanceof PluginConfigurationError) {
+    return error;
+  }
+
+  return new WormholeUpstreamError({
+    message: error instanceof Error ? error.message : String(error),
+    retryable: true,
+    cause: error,
+  });
+}
@@ -0,0 +1,223 @@
+import { PluginConfigurationError } from "every-plugin";
+
+import {
+  WormholeDecodeError,
+  WormholeRateLimitError,
+  WormholeTimeoutError,
+  WormholeUpstreamError,
+} from "./errors";
+import { type RateLimiter, parseRetryAfter } from "./limiter";
+
+/**
+ * Fetch function used for outbound requests.
+ */
+export type FetchFn = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface HttpClientOptions {
+  baseUrl: string;
+  apiKey?: string;
+  // Per-attempt timeout in milliseconds
+  timeout: number;
+  // Attempts after the first one; 0 disables retries
+  maxRetries: number;
+  limiter: RateLimiter;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  fetchFn?: FetchFn;
+}
+
+export interface RequestOptions {
+  // Aborts the request (and any pending retries) when the caller gives up
+  signal?: AbortSignal;
+  // Overrides the client's per-attempt timeout
+  timeout?: number;
+  // Overrides the client's maxRetries
+  maxRetries?: number;
+}
+
+// Back-off applied when a 429 arrives without a usable Retry-After header
+const DEFAULT_RETRY_AFTER_MS = 60_000;
+
+/**
+ * 429 and 5xx responses are transient; everything else is the caller's problem.
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Rate limits, timeouts and transient upstream failures are retryable;
+ * decode and configuration errors are not.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof WormholeRateLimitError || error instanceof WormholeTimeoutError) return true;
+  if (error instanceof WormholeUpstreamError) return error.retryable;
+  return false;
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay between 0 and
+ * min(maxDelayMs, initialDelayMs * 2^attempt).
+ */
+export function backoffDelay(
+  attempt: number,
+  initialDelayMs: number,
+  maxDelayMs: number,
+  random: () => number = Math.random
+): number {
+  const ceiling = Math.min(maxDelayMs, initialDelayMs * 2 ** attempt);
+  return Math.floor(random() * ceiling);
+}
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * HTTP client for the Wormholescan API.
+ *
+ * Every request goes through the rate limiter and is retried with
+ * exponential backoff and jitter on network errors, timeouts, 429 and 5xx
+ * responses. A 429 additionally pauses the limiter for its Retry-After.
+ * Failures are thrown as the typed errors from `./errors`.
+ */
+export class HttpClient {
+  private readonly initialDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly fetchFn: FetchFn;
+
+  constructor(private readonly options: HttpClientOptions) {
+    this.initialDelayMs = options.initialDelayMs ?? 1000;
+    this.maxDelayMs = options.maxDelayMs ?? 10_000;
+    this.fetchFn = options.fetchFn ?? ((url, init) => fetch(url, init));
+  }
+
+  get limiter(): RateLimiter {
+    return this.options.limiter;
+  }
+
+  /**
+   * GET a JSON document from `path` (relative to the base URL).
+   */
+  async getJson(
+    path: string,
+    query: Record<string, string | number | undefined> = {},
+    options: RequestOptions = {}
+  ): Promise<unknown> {
+    const url = this.buildUrl(path, query);
+    const maxRetries = options.maxRetries ?? this.options.maxRetries;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.attempt(url, options);
+      } catch (error) {
+        if (options.signal?.aborted) throw error;
+        if (attempt >= maxRetries || !isRetryableError(error)) throw error;
+
+        const retryAfterMs = error instanceof WormholeRateLimitError ? error.retryAfterMs : null;
+        const delayMs = Math.max(
+          retryAfterMs ?? 0,
+          backoffDelay(attempt, this.initialDelayMs, this.maxDelayMs)
+        );
+
+        console.warn(
+          `[HttpClient] ${path} failed (${error instanceof Error ? error.message : String(error)}), retry ${attempt + 1}/${maxRetries} in ${delayMs}ms`
+        );
+        await sleep(delayMs, options.signal);
+      }
+    }
+  }
+
+  private async attempt(url: string, options: RequestOptions): Promise<unknown> {
+    return this.options.limiter.schedule(async () => {
+      const timeoutMs = options.timeout ?? this.options.timeout;
+      const timeoutSignal = AbortSignal.timeout(timeoutMs);
+      const signal = options.signal ? AbortSignal.any([options.signal, timeoutSignal]) : timeoutSignal;
+
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (this.options.apiKey) {
+        headers.Authorization = `Bearer ${this.options.apiKey}`;
+      }
+
+      // The timeout wins unless the caller aborted too
+      const transportError = (error: unknown) => {
+        if (timeoutSignal.aborted && !options.signal?.aborted) {
+          return new WormholeTimeoutError({
+            message: `Request to ${url} timed out after ${timeoutMs}ms`,
+            timeoutMs,
+          });
+        }
+
+        return new WormholeUpstreamError({
+          message: `Request to ${url} failed: ${error instanceof Error ? error.message : String(error)}`,
+          retryable: !options.signal?.aborted,
+          cause: error,
+        });
+      };
+
+      let response: Response;
+      try {
+        response = await this.fetchFn(url, { method: "GET", headers, signal });
+      } catch (error) {
+        throw transportError(error);
+      }
+
+      if (response.status === 401 || response.status === 403) {
+        throw new PluginConfigurationError({
+          message: `Wormholescan rejected the request (HTTP ${response.status})`,
+          retryable: false,
+        });
+      }
+
+      if (response.status === 429) {
+        const retryAfterMs = parseRetryAfter(response.headers?.get("Retry-After")) ?? DEFAULT_RETRY_AFTER_MS;
+        console.warn(`[HttpClient] Rate limited by Wormholescan, backing off for ${retryAfterMs}ms`);
+        this.options.limiter.pauseFor(retryAfterMs);
+        throw new WormholeRateLimitError({
+          message: `Rate limited by Wormholescan, retry after ${Math.ceil(retryAfterMs / 1000)} seconds`,
+          retryAfterMs,
+        });
+      }
+
+      if (!response.ok) {
+        throw new WormholeUpstreamError({
+          message: `HTTP ${response.status} from ${url}`,
+          status: response.status,
+          retryable: isRetryableStatus(response.status),
+        });
+      }
+
+      try {
+        return await response.json();
+      } catch (error) {
+        // An abort while the body is read is not a change of shape
+        if (signal.aborted) throw transportError(error);
+
+        throw new WormholeDecodeError({
+          message: `Invalid JSON from ${url}: ${error instanceof Error ? error.message : String(error)}`,
+        });
+      }
+    }, options.signal);
+  }
+
+  private buildUrl(path: string, query: Record<string, string | number | undefined>): string {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined) params.set(key, String(value));
+    }
+
+    const search = params.toString();
+    return `${this.options.baseUrl}${path}${search ? `?${search}` : ""}`;
+  }
+}
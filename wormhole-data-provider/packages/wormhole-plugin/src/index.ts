@@ -1,17 +1,85 @@
-import { createPlugin, PluginConfigurationError } from "every-plugin";
-import { Effect } from "every-plugin/effect";
+import { type CommonPluginErrors, createPlugin, PluginConfigurationError } from "every-plugin";
+import { Cause, Effect, Exit, Fiber, Stream } from "every-plugin/effect";
+import type { ORPCErrorConstructorMap } from "every-plugin/orpc";
 import { z } from "every-plugin/zod";
 
 import { contract } from "./contract";
+import {
+  WormholeDecodeError,
+  WormholeRateLimitError,
+  WormholeTimeoutError,
+  WormholeUpstreamError,
+} from "./errors";
+import type { FetchFn } from "./http";
 import { WormholeService } from "./service";
+import { FileOperationsStore } from "./store";
+
+/**
+ * Map a failure from the service's Effect error channel to CommonPluginErrors.
+ */
+function toPluginError(
+  error: unknown,
+  errors: ORPCErrorConstructorMap<typeof CommonPluginErrors>
+) {
+  if (error instanceof PluginConfigurationError) {
+    return errors.UNAUTHORIZED({
+      message: error.message,
+      data: { apiKeyProvided: true },
+    });
+  }
+
+  if (error instanceof WormholeRateLimitError) {
+    return errors.RATE_LIMITED({
+      message: "API rate limit exceeded",
+      data: {
+        retryAfter: Math.max(1, Math.ceil(error.retryAfterMs / 1000)),
+        limitType: "requests" as const,
+      },
+    });
+  }
+
+  if (error instanceof WormholeTimeoutError) {
+    return errors.SERVICE_UNAVAILABLE({
+      message: error.message,
+      data: { retryAfter: 5 },
+    });
+  }
+
+  if (error instanceof WormholeDecodeError) {
+    // The upstream payload changed shape; retrying soon will not help
+    return errors.SERVICE_UNAVAILABLE({
+      message: error.message,
+      data: { retryAfter: 300 },
+    });
+  }
+
+  if (error instanceof WormholeUpstreamError) {
+    return errors.SERVICE_UNAVAILABLE({
+      message: error.message,
+      data: { retryAfter: error.retryable ? 30 : 300 },
+    });
+  }
+
+  return errors.SERVICE_UNAVAILABLE({
+    message: error instanceof Error ? error.message : "Unknown error occurred",
+    data: { retryAfter: 30 },
+  });
+}
+
+export interface WormholePluginOptions {
+  // Sends every Wormholescan request; the global fetch by default. Plugin
+  // variables go through JSON, so a function cannot be one of them
+  transport?: FetchFn;
+}
 
 /**
  * Wormhole Data Provider Plugin - Collects cross-chain bridge metrics from Wormhole.
  * 
  * This plugin implements the data provider contract for Wormhole, providing:
- * - Volume metrics for 24h, 7d, 30d windows
+ * - Volume metrics for preset windows and explicit time ranges
+ * - Hourly or daily volume series, per route or asset
  * - Rate quotes with proper decimal normalization
- * - Liquidity depth at 50bps and 100bps thresholds
+ * - Liquidity depth at caller-chosen slippage thresholds (50bps and 100bps by default)
  * - List of supported assets
  * 
  * Features:
@@ -19,98 +87,109 @@ import { WormholeService } from "./service";
  * - Rate limiting to respect Wormhole API limits
  * - Comprehensive error handling
  * - Fallback data when API unavailable
+ * - Background sync of new operations, stopped on shutdown
+ *
+ * The default export is this plugin with the default options.
  */
-export default createPlugin({
-  id: "@every-plugin/wormhole",
-
-  variables: z.object({
-    baseUrl: z.string().url().default("https://api.wormholescan.io/api/v1"),
-    timeout: z.number().min(1000).max(60000).default(10000),
-    requestsPerSecond: z.number().min(1).max(100).default(10),
-  }),
-
-  secrets: z.object({
-    apiKey: z.string().optional(),
-  }),
-
-  contract,
-
-  initialize: (config) =>
-    Effect.gen(function* () {
-      // Create service instance with config
-      const service = new WormholeService(
-        config.variables.baseUrl,
-        config.variables.timeout,
-        config.variables.requestsPerSecond
-      );
-
-      // Test the connection during initialization (but don't fail if unavailable)
-      // This allows the plugin to initialize even if the API is temporarily down
-      yield* service.ping().pipe(
-        Effect.catchAll(() => Effect.void) // Ignore ping errors during initialization
-      );
-
-      return { service };
+export function createWormholePlugin(options: WormholePluginOptions = {}) {
+  return createPlugin({
+    id: "@every-plugin/wormhole",
+
+    variables: z.object({
+      baseUrl: z.string().url().default("https://api.wormholescan.io/api/v1"),
+      timeout: z.number().min(1000).max(60000).default(10000),
+      requestsPerSecond: z.number().min(1).max(100).default(10),
+      maxRetries: z.number().int().min(0).max(10).default(3),
+      // Directory to persist crawled operations in; in memory only when unset
+      storePath: z.string().min(1).optional(),
+      // Background sync interval in ms; 0 disables it and snapshots sync on demand
+      syncIntervalMs: z.number().int().min(0).max(3_600_000).default(15_000),
+      // Route/notional quotes or route depth searches a snapshot runs at once
+      maxConcurrency: z.number().int().min(1).max(32).default(4),
     }),
 
-  shutdown: () => Effect.void,
-
-  createRouter: (context, builder) => {
-    const { service } = context;
-
-    return {
-      getSnapshot: builder.getSnapshot.handler(async ({ input, errors }) => {
-        try {
-          const snapshot = await Effect.runPromise(
-            service.getSnapshot(input)
-          );
-          return snapshot;
-        } catch (error) {
-          // Map errors to CommonPluginErrors following guide best practices
-          if (error instanceof PluginConfigurationError) {
-            throw errors.UNAUTHORIZED({
-              message: error.message,
-              data: { apiKeyProvided: true },
-            });
-          }
+    secrets: z.object({
+      apiKey: z.string().optional(),
+    }),
+
+    contract,
 
-          if (error instanceof Error && error.message.includes("Rate limited")) {
-            const retryAfterMatch = error.message.match(/Retry after (\d+) seconds/);
-            const retryAfter = retryAfterMatch ? parseInt(retryAfterMatch[1], 10) : 60;
-            
-            throw errors.RATE_LIMITED({
-              message: "API rate limit exceeded",
-              data: { retryAfter, limitType: "requests" as const },
-            });
+    initialize: (config) =>
+      Effect.gen(function* () {
+        // Create service instance with config
+        const service = new WormholeService(
+          config.variables.baseUrl,
+          config.secrets.apiKey,
+          config.variables.timeout,
+          config.variables.requestsPerSecond,
+          config.variables.maxRetries,
+          {
+            store: config.variables.storePath ? new FileOperationsStore(config.variables.storePath) : undefined,
+            // Let the background sync keep data fresh instead of snapshots, even if it falls a tick behind
+            operationsTtlMs: Math.max(30_000, 2 * config.variables.syncIntervalMs),
+            maxConcurrency: config.variables.maxConcurrency,
+            transport: options.transport,
           }
+        );
 
-          // Map other errors to SERVICE_UNAVAILABLE
-          throw errors.SERVICE_UNAVAILABLE({
-            message: error instanceof Error ? error.message : "Unknown error occurred",
-            data: { retryAfter: 30 },
-          });
+        // Test the connection during initialization (but don't fail if unavailable)
+        // This allows the plugin to initialize even if the API is temporarily down
+        const health = yield* service.ping();
+        if (health.status !== "ok") {
+          console.warn(`[WormholePlugin] Starting while ${health.status}: ${health.upstream.error ?? "see ping"}`);
         }
+
+        // Keep operations warm in the background; the fiber lives in the plugin's scope
+        const syncFiber = config.variables.syncIntervalMs > 0
+          ? yield* Effect.forkScoped(service.syncEvery(config.variables.syncIntervalMs))
+          : null;
+
+        return { service, syncFiber };
       }),
 
-      ping: builder.ping.handler(async ({ errors }) => {
-        try {
-          return await Effect.runPromise(service.ping());
-        } catch (error) {
-          // Ping should generally succeed, but handle errors gracefully
-          if (error instanceof PluginConfigurationError) {
-            throw errors.UNAUTHORIZED({
-              message: error.message,
-              data: { apiKeyProvided: true },
-            });
+    shutdown: (context) =>
+      context.syncFiber ? Fiber.interrupt(context.syncFiber).pipe(Effect.asVoid) : Effect.void,
+
+    createRouter: (context, builder) => {
+      const { service } = context;
+
+      return {
+        // The request's signal interrupts the work when the client goes away
+        getSnapshot: builder.getSnapshot.handler(async ({ input, errors, signal }) => {
+          const exit = await Effect.runPromiseExit(service.getSnapshot(input), { signal });
+
+          if (Exit.isFailure(exit)) {
+            throw toPluginError(Cause.squash(exit.cause), errors);
           }
 
-          // Even if ping fails, return ok status (health check should be resilient)
-          return {
-            status: "ok" as const,
-            timestamp: new Date().toISOString(),
-          };
-        }
-      }),
-    };
-  }
-});
+          return exit.value;
+        }),
+
+        streamSnapshot: builder.streamSnapshot.handler(async function* ({ input, errors }) {
+          try {
+            yield* Stream.toAsyncIterable(service.streamSnapshot(input));
+          } catch (error) {
+            throw toPluginError(error, errors);
+          }
+        }),
+
+        getVolumeSeries: builder.getVolumeSeries.handler(async ({ input, errors, signal }) => {
+          const exit = await Effect.runPromiseExit(service.getVolumeSeries(input), { signal });
+
+          if (Exit.isFailure(exit)) {
+            throw toPluginError(Cause.squash(exit.cause), errors);
+          }
+
+          return exit.value;
+        }),
+
+        // Never throws: an unhealthy provider is reported in the status
+        ping: builder.ping.handler(async () => {
+          return await Effect.runPromise(service.ping());
+        }),
+      };
+    }
+  });
+}
+
+export default createWormholePlugin();
@@ -0,0 +1,171 @@
+export interface RateLimiterOptions {
+  // Sustained rate: tokens refilled per second
+  requestsPerSecond: number;
+  // Bucket capacity: requests allowed back-to-back after an idle period
+  burst?: number;
+  // Maximum requests in flight at any time
+  maxConcurrency?: number;
+}
+
+export interface RateLimiterStats {
+  queued: number;
+  inFlight: number;
+  availableTokens: number;
+  pausedForMs: number;
+  // Share of capacity in use, 0 to 1; 1 while requests wait for a slot
+  saturation: number;
+}
+
+/**
+ * Parse a `Retry-After` header (delta-seconds or HTTP-date) into milliseconds.
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Token-bucket rate limiter with a concurrency cap.
+ *
+ * Callers are served strictly in arrival order: a request only starts when
+ * the bucket has a token, fewer than `maxConcurrency` requests are in flight
+ * and no back-off is active. `pauseFor` stalls the whole queue, which is how
+ * a 429 `Retry-After` from Wormholescan is honoured. A waiter whose signal
+ * aborts leaves the queue without using a token or a slot.
+ */
+export class RateLimiter {
+  private readonly refillPerMs: number;
+  private readonly capacity: number;
+  private readonly maxConcurrency: number;
+  private readonly queue: Array<() => void> = [];
+  private tokens: number;
+  private lastRefill: number;
+  private inFlight = 0;
+  private pausedUntil = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: RateLimiterOptions) {
+    this.refillPerMs = options.requestsPerSecond / 1000;
+    this.capacity = Math.max(1, options.burst ?? options.requestsPerSecond);
+    this.maxConcurrency = Math.max(1, options.maxConcurrency ?? Number.POSITIVE_INFINITY);
+    this.tokens = this.capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Run a task once a slot is available, releasing the slot when it settles.
+   * Rejects with the abort reason if `signal` aborts before the task starts.
+   */
+  async schedule<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const release = await this.acquire(signal);
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Wait for a slot. The returned function must be called when the request
+   * finishes to free its concurrency slot. When `signal` aborts first, the
+   * waiter is removed from the queue and this rejects with the abort reason.
+   */
+  acquire(signal?: AbortSignal): Promise<() => void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) return reject(signal.reason);
+
+      const grant = () => {
+        signal?.removeEventListener("abort", onAbort);
+        let released = false;
+        resolve(() => {
+          if (released) return;
+          released = true;
+          this.inFlight--;
+          this.drain();
+        });
+      };
+      const onAbort = () => {
+        const index = this.queue.indexOf(grant);
+        if (index !== -1) this.queue.splice(index, 1);
+        reject(signal!.reason);
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.queue.push(grant);
+      this.drain();
+    });
+  }
+
+  /**
+   * Stop granting slots for `ms` milliseconds (e.g. after a 429 response).
+   * Overlapping pauses extend to the latest deadline.
+   */
+  pauseFor(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    this.drain();
+  }
+
+  get stats(): RateLimiterStats {
+    this.refill();
+    const pausedForMs = Math.max(0, this.pausedUntil - Date.now());
+    return {
+      queued: this.queue.length,
+      inFlight: this.inFlight,
+      availableTokens: Math.floor(this.tokens),
+      pausedForMs,
+      saturation: this.queue.length > 0 || pausedForMs > 0
+        ? 1
+        : Math.max(this.inFlight / this.maxConcurrency, 1 - this.tokens / this.capacity),
+    };
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+    this.lastRefill = now;
+  }
+
+  private drain(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    this.refill();
+
+    while (this.queue.length > 0) {
+      const now = Date.now();
+
+      if (now < this.pausedUntil) {
+        this.wake(this.pausedUntil - now);
+        return;
+      }
+
+      // A release will call drain again
+      if (this.inFlight >= this.maxConcurrency) return;
+
+      if (this.tokens < 1) {
+        this.wake(Math.ceil((1 - this.tokens) / this.refillPerMs));
+        return;
+      }
+
+      this.tokens -= 1;
+      this.inFlight++;
+      this.queue.shift()!();
+    }
+  }
+
+  private wake(delayMs: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.drain();
+    }, Math.max(0, delayMs));
+  }
+}
@@ -0,0 +1,51 @@
+import type { z } from "every-plugin/zod";
+
+import type { Provenance } from "./contract";
+import { getOperationTime } from "./crawler";
+import type { WormholescanOperationType } from "./wormholescan";
+
+type ProvenanceType = z.infer<typeof Provenance>;
+
+/**
+ * Share of a target sample size reached, in [0, 1].
+ */
+export function sampleConfidence(sampleSize: number, target: number): number {
+  if (target <= 0) return 1;
+  return Math.min(1, sampleSize / target);
+}
+
+/**
+ * Provenance of a metric computed from `samples`. The covered range spans
+ * the samples' source timestamps unless given explicitly.
+ */
+export function buildProvenance(
+  source: ProvenanceType["source"],
+  samples: WormholescanOperationType[],
+  options: {
+    fallbackUsed?: boolean;
+    confidence: number;
+    coveredFrom?: number | null;
+    coveredTo?: number | null;
+  }
+): ProvenanceType {
+  let oldest: number | null = null;
+  let newest: number | null = null;
+  for (const op of samples) {
+    const time = getOperationTime(op);
+    if (time === null) continue;
+    oldest = oldest === null ? time : Math.min(oldest, time);
+    newest = newest === null ? time : Math.max(newest, time);
+  }
+
+  const coveredFrom = options.coveredFrom !== undefined ? options.coveredFrom : oldest;
+  const coveredTo = options.coveredTo !== undefined ? options.coveredTo : newest;
+
+  return {
+    source,
+    sampleSize: samples.length,
+    coveredFrom: coveredFrom === null ? null : new Date(coveredFrom).toISOString(),
+    coveredTo: coveredTo === null ? null : new Date(coveredTo).toISOString(),
+    fallbackUsed: options.fallbackUsed ?? false,
+    confidence: Math.round(Math.min(1, Math.max(0, options.confidence)) * 100) / 100,
+  };
+}
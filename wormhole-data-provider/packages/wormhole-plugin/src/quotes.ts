@@ -0,0 +1,271 @@
+import type { z } from "every-plugin/zod";
+
+import type { Chain } from "./chains";
+import type { Asset } from "./contract";
+import { sampleConfidence } from "./provenance";
+import { RATE_SCALE, applyRate, formatUnits, meanRate, parseInteger, ratioOf } from "./rates";
+import { lookupToken } from "./tokens";
+import type { WormholescanOperationType } from "./wormholescan";
+
+type AssetType = z.infer<typeof Asset>;
+
+// Which quote source produced a rate
+export type QuoteSourceName = "fee-model" | "historical" | "assumed";
+
+// Wormhole transfer protocol a quote is modelled on
+export type BridgeProtocol = "cctp" | "ntt" | "portal";
+
+export interface QuoteRequest {
+  source: AssetType;
+  destination: AssetType;
+  sourceChain: Chain;
+  destinationChain: Chain;
+  // In source smallest units
+  amountIn: bigint;
+  // Recent transfers on the route, newest first
+  operations: WormholescanOperationType[];
+}
+
+export interface Quote {
+  source: QuoteSourceName;
+  protocol: BridgeProtocol | null;
+  // In destination smallest units
+  amountOut: bigint;
+  feesUsd: number | null;
+  // Operations the quote was derived from
+  samples: WormholescanOperationType[];
+  // How far the quote can be trusted, in [0, 1]
+  confidence: number;
+}
+
+/**
+ * Produces quotes for a route. Returns null when it cannot quote the
+ * request, so the next source in line gets a chance.
+ */
+export interface QuoteSource {
+  readonly name: QuoteSourceName;
+  quote(request: QuoteRequest): Promise<Quote | null>;
+}
+
+// Symbols priced at $1 when no transfer gives a price
+const STABLECOINS = new Set(["USDC", "USDC.e", "USDT", "DAI"]);
+
+// Chains where Circle's CCTP burns and mints native USDC (Wormhole chain ids)
+const CCTP_CHAINS = new Set([1, 2, 5, 6, 23, 24, 30]);
+
+// Tokens deployed with Native Token Transfers
+const NTT_TOKENS = new Set(["W"]);
+
+// Priced transfers for full confidence in a USD price
+const PRICE_SAMPLE_TARGET = 10;
+
+// Token Bridge and NTT carry amounts with at most 8 decimals; the rest is dust
+const TRANSFER_DECIMALS = 8;
+
+export interface UsdPrice {
+  usd: number;
+  // Transfers the price was averaged over; empty for the stablecoin default
+  samples: WormholescanOperationType[];
+}
+
+/**
+ * USD price of the source token: mean of usdAmount / tokenAmount over the
+ * route's transfers of that token, $1 for stablecoins, otherwise null.
+ */
+export function sourceUsdPrice(request: Pick<QuoteRequest, "source" | "operations">): UsdPrice | null {
+  const prices: number[] = [];
+  const samples: WormholescanOperationType[] = [];
+  for (const op of request.operations) {
+    if (op.data?.symbol !== request.source.symbol) continue;
+
+    const tokenAmount = parseFloat(op.data?.tokenAmount || "0");
+    const usdAmount = parseFloat(op.data?.usdAmount || "0");
+    if (tokenAmount > 0 && usdAmount > 0) {
+      prices.push(usdAmount / tokenAmount);
+      samples.push(op);
+    }
+  }
+
+  if (prices.length > 0) {
+    return { usd: prices.reduce((sum, price) => sum + price, 0) / prices.length, samples };
+  }
+  return STABLECOINS.has(request.source.symbol) ? { usd: 1, samples } : null;
+}
+
+// USD value of an amount in source smallest units
+function toUsd(units: bigint, decimals: number, price: UsdPrice | null): number | null {
+  return price === null ? null : Number(formatUnits(units, decimals)) * price.usd;
+}
+
+/**
+ * Fee model for the relayers a user would go through (Wormhole Connect):
+ * a per-protocol relayer fee plus the cost of redeeming on the destination.
+ */
+export interface FeeModel {
+  // Relayer fee on top of destination gas, in USD
+  relayerFeeUsd: Record<BridgeProtocol, number>;
+  // Typical redeem cost by destination Wormhole chain id, in USD
+  destinationGasUsd: Record<number, number>;
+  defaultDestinationGasUsd: number;
+  // Largest transfer delivered without delay (Governor holds and protocol
+  // limits), in USD; larger transfers are not quoted
+  maxTransferUsd: Record<BridgeProtocol, number>;
+}
+
+export const DEFAULT_FEE_MODEL: FeeModel = {
+  relayerFeeUsd: { cctp: 0, ntt: 0.1, portal: 0.25 },
+  destinationGasUsd: {
+    1: 0.01, // Solana
+    2: 2.5, // Ethereum
+    4: 0.1, // BNB Smart Chain
+    5: 0.02, // Polygon
+    6: 0.05, // Avalanche
+    21: 0.01, // Sui
+    22: 0.01, // Aptos
+    23: 0.05, // Arbitrum
+    24: 0.02, // Optimism
+    30: 0.02, // Base
+  },
+  defaultDestinationGasUsd: 0.5,
+  maxTransferUsd: { cctp: 1_000_000, ntt: 1_000_000, portal: 5_000_000 },
+};
+
+/**
+ * Models what a user receives through the protocol Wormhole Connect would
+ * pick for the route:
+ * - CCTP: native USDC on both sides, burned and minted 1:1
+ * - NTT: Native Token Transfers tokens, 1:1 with 8-decimal trimming
+ * - Portal: Token Bridge wrapped transfer, 1:1 with 8-decimal trimming
+ * minus the relayer fee and destination gas, converted into source tokens.
+ * Needs a USD price for the source token; returns null without one, or
+ * when the transfer exceeds the protocol's prompt-delivery limit.
+ * Confidence grows from 0.5 to 0.9 with the transfers behind the price.
+ */
+export class FeeModelQuoteSource implements QuoteSource {
+  readonly name = "fee-model" as const;
+
+  constructor(private readonly model: FeeModel = DEFAULT_FEE_MODEL) {}
+
+  async quote(request: QuoteRequest): Promise<Quote | null> {
+    const price = sourceUsdPrice(request);
+    if (price === null || price.usd <= 0) return null;
+
+    const protocol = this.protocolFor(request);
+    const sourceDecimals = request.source.decimals;
+    const amountUsd = Number(formatUnits(request.amountIn, sourceDecimals)) * price.usd;
+    if (amountUsd > this.model.maxTransferUsd[protocol]) return null;
+
+    // Dust below the transfer precision never leaves the source chain
+    const dustDecimals = protocol === "cctp" ? 0 : Math.max(0, sourceDecimals - TRANSFER_DECIMALS);
+    const dust = request.amountIn % 10n ** BigInt(dustDecimals);
+    const transferable = request.amountIn - dust;
+
+    const feesUsd =
+      this.model.relayerFeeUsd[protocol] +
+      (this.model.destinationGasUsd[request.destinationChain.wormholeId] ?? this.model.defaultDestinationGasUsd);
+    const feeUnits = BigInt(Math.ceil((feesUsd / price.usd) * 10 ** sourceDecimals));
+
+    const received = transferable > feeUnits ? transferable - feeUnits : 0n;
+
+    return {
+      source: this.name,
+      protocol,
+      amountOut: applyRate(received, RATE_SCALE, sourceDecimals, request.destination.decimals),
+      feesUsd,
+      samples: price.samples,
+      confidence: 0.5 + 0.4 * sampleConfidence(price.samples.length, PRICE_SAMPLE_TARGET),
+    };
+  }
+
+  private protocolFor(request: QuoteRequest): BridgeProtocol {
+    const sourceToken = lookupToken(request.sourceChain, request.source.assetId);
+    const destinationToken = lookupToken(request.destinationChain, request.destination.assetId);
+
+    if (
+      sourceToken?.symbol === "USDC" &&
+      destinationToken?.symbol === "USDC" &&
+      CCTP_CHAINS.has(request.sourceChain.wormholeId) &&
+      CCTP_CHAINS.has(request.destinationChain.wormholeId)
+    ) {
+      return "cctp";
+    }
+
+    if (sourceToken && NTT_TOKENS.has(sourceToken.symbol) && destinationToken?.symbol === sourceToken.symbol) {
+      return "ntt";
+    }
+
+    return "portal";
+  }
+}
+
+/**
+ * Derives the rate from the route's recent transfers: the mean fraction of
+ * each transfer that arrived (amount minus relayer fee). Returns null when
+ * the route has no usable transfers. Past fees are not a quote, so
+ * confidence tops out at 0.8 with a full sample.
+ */
+export class HistoricalQuoteSource implements QuoteSource {
+  readonly name = "historical" as const;
+
+  constructor(private readonly sampleSize: number = 10) {}
+
+  async quote(request: QuoteRequest): Promise<Quote | null> {
+    const ratios: bigint[] = [];
+    const samples: WormholescanOperationType[] = [];
+    for (const op of request.operations.slice(0, this.sampleSize)) {
+      const properties = op.content?.standarizedProperties;
+      const amount = parseInteger(properties?.amount);
+      const fee = parseInteger(properties?.fee) ?? 0n;
+      if (amount !== null && amount > 0n && fee <= amount) {
+        ratios.push(ratioOf(amount - fee, amount));
+        samples.push(op);
+      }
+    }
+
+    const rate = meanRate(ratios);
+    if (rate === null) return null;
+
+    return {
+      ...rateQuote(this.name, request, rate),
+      samples,
+      confidence: 0.8 * sampleConfidence(samples.length, this.sampleSize),
+    };
+  }
+}
+
+/**
+ * Last resort: assumes a flat fee (0.5% by default). Always quotes, with
+ * zero confidence.
+ */
+export class AssumedFeeQuoteSource implements QuoteSource {
+  readonly name = "assumed" as const;
+
+  constructor(private readonly feeBps: number = 50) {}
+
+  async quote(request: QuoteRequest): Promise<Quote> {
+    return rateQuote(this.name, request, (RATE_SCALE * BigInt(10_000 - this.feeBps)) / 10_000n);
+  }
+}
+
+function rateQuote(source: QuoteSourceName, request: QuoteRequest, rate: bigint): Quote {
+  const { amountIn } = request;
+  const sourceDecimals = request.source.decimals;
+  const feeUnits = amountIn - applyRate(amountIn, rate, sourceDecimals, sourceDecimals);
+
+  return {
+    source,
+    protocol: null,
+    amountOut: applyRate(amountIn, rate, sourceDecimals, request.destination.decimals),
+    feesUsd: toUsd(feeUnits, sourceDecimals, sourceUsdPrice(request)),
+    samples: [],
+    confidence: 0,
+  };
+}
+
+/**
+ * Quote sources used by default, in order of preference. The historical
+ * derivation stays as a fallback for routes the fee model cannot price.
+ */
+export function defaultQuoteSources(): QuoteSource[] {
+  return [new FeeModelQuoteSource(), new HistoricalQuoteSource()];
+}
@@ -0,0 +1,78 @@
+/**
+ * Fixed-point rate math on bigint smallest units.
+ *
+ * Rates are dimensionless ratios (destination tokens received per source
+ * token sent) scaled by 10^RATE_DECIMALS, so amounts with 18 decimals never
+ * pass through floating point.
+ */
+
+export const RATE_DECIMALS = 18;
+export const RATE_SCALE = 10n ** BigInt(RATE_DECIMALS);
+
+const pow10 = (decimals: number) => 10n ** BigInt(decimals);
+
+/**
+ * Parse a non-negative integer string (an amount in smallest units), or null
+ * when it is not one.
+ */
+export function parseInteger(value: string | null | undefined): bigint | null {
+  if (value == null || !/^\d+$/.test(value.trim())) return null;
+  return BigInt(value.trim());
+}
+
+/**
+ * Format smallest units as a decimal string without trailing zeros.
+ */
+export function formatUnits(value: bigint, decimals: number): string {
+  const negative = value < 0n;
+  const digits = (negative ? -value : value).toString().padStart(decimals + 1, "0");
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, "");
+  return `${negative ? "-" : ""}${whole}${fraction ? `.${fraction}` : ""}`;
+}
+
+/**
+ * Ratio of `received` to `sent` (same token, same units) as a scaled rate.
+ */
+export function ratioOf(received: bigint, sent: bigint): bigint {
+  if (sent <= 0n) throw new Error("Cannot compute a rate for a zero amount");
+  return (received * RATE_SCALE) / sent;
+}
+
+/**
+ * Amount received in destination smallest units for `amountIn` source
+ * smallest units at a scaled rate. Rounds down: never quote more than the
+ * rate gives.
+ */
+export function applyRate(
+  amountIn: bigint,
+  rate: bigint,
+  sourceDecimals: number,
+  destinationDecimals: number
+): bigint {
+  return (amountIn * rate * pow10(destinationDecimals)) / (RATE_SCALE * pow10(sourceDecimals));
+}
+
+/**
+ * (amountOut / 10^destinationDecimals) / (amountIn / 10^sourceDecimals),
+ * computed in fixed point and only converted to a number at the end.
+ */
+export function effectiveRate(
+  amountIn: bigint,
+  amountOut: bigint,
+  sourceDecimals: number,
+  destinationDecimals: number
+): number {
+  if (amountIn <= 0n) return 0;
+
+  const scaled = (amountOut * pow10(sourceDecimals) * RATE_SCALE) / (amountIn * pow10(destinationDecimals));
+  return Number(formatUnits(scaled, RATE_DECIMALS));
+}
+
+/**
+ * Mean of scaled rates, or null for an empty list.
+ */
+export function meanRate(rates: bigint[]): bigint | null {
+  if (rates.length === 0) return null;
+  return rates.reduce((sum, rate) => sum + rate, 0n) / BigInt(rates.length);
+}
@@ -1,14 +1,49 @@
-import { Effect } from "every-plugin/effect";
+import { Duration, Effect, Schedule, Stream } from "every-plugin/effect";
 import type { z } from "every-plugin/zod";
 
+import { buildVolumeBreakdown } from "./breakdown";
+import { type CachePolicy, type CachedValue, SwrCache } from "./cache";
+import { chainFromWormholeId, formatChainId, resolveChain } from "./chains";
+import { OperationsCrawler, getOperationTime } from "./crawler";
+import { OperationsDataset, type OperationsWindow } from "./dataset";
+import { type DepthEstimate, estimateDepth } from "./depth";
+import {
+  WormholeRateLimitError,
+  type WormholeServiceError,
+  WormholeTimeoutError,
+  toWormholeError,
+} from "./errors";
+import { type FetchFn, HttpClient, isRetryableError } from "./http";
+import { RateLimiter, type RateLimiterStats } from "./limiter";
+import {
+  AssumedFeeQuoteSource,
+  type Quote,
+  type QuoteRequest,
+  type QuoteSource,
+  defaultQuoteSources,
+} from "./quotes";
+import { buildProvenance } from "./provenance";
+import type { OperationsStore } from "./store";
+import { effectiveRate } from "./rates";
+import { lookupToken, normalizeTokenAddress, resolveTokenDecimals } from "./tokens";
+import { INTERVAL_MS, type WindowRange, bucketRange, inWindow, resolveWindow } from "./windows";
+import type { WormholescanOperationType } from "./wormholescan";
+
 // Import types from contract
 import type {
   Asset,
   Rate,
   LiquidityDepth,
   VolumeWindow,
+  VolumeWindowSpec,
+  VolumeSeries,
+  Health,
+  ListedAsset,
   ListedAssets,
-  ProviderSnapshot
+  Provenance,
+  ProviderSnapshot,
+  SnapshotError,
+  SnapshotEvent
 } from "./contract";
 
 // Infer the types from the schemas
@@ -16,353 +51,815 @@ type AssetType = z.infer<typeof Asset>;
 type RateType = z.infer<typeof Rate>;
 type LiquidityDepthType = z.infer<typeof LiquidityDepth>;
 type VolumeWindowType = z.infer<typeof VolumeWindow>;
+type VolumeWindowSpecType = z.infer<typeof VolumeWindowSpec>;
+type VolumeSeriesType = z.infer<typeof VolumeSeries>;
+type HealthType = z.infer<typeof Health>;
+type ProvenanceType = z.infer<typeof Provenance>;
+type ListedAssetType = z.infer<typeof ListedAsset>;
 type ListedAssetsType = z.infer<typeof ListedAssets>;
 type ProviderSnapshotType = z.infer<typeof ProviderSnapshot>;
 
+type Route = { source: AssetType; destination: AssetType };
+
+type SnapshotErrorType = z.infer<typeof SnapshotError>;
+type SnapshotEventType = z.infer<typeof SnapshotEvent>;
+
+type SnapshotParams = {
+  routes: Route[];
+  notionals: string[];
+  includeWindows?: VolumeWindowSpecType[];
+  includeBreakdown?: boolean;
+  slippageBpsThresholds?: number[];
+  // Overall time limit; unbounded when unset
+  deadlineMs?: number;
+};
+
+export type SnapshotSection = "volumes" | "rates" | "liquidity" | "listedAssets";
+
+// A snapshot section: what could be computed, and what failed
+interface SectionResult<T> {
+  value: T;
+  errors: SnapshotErrorType[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Concurrent requests allowed against Wormholescan
+const MAX_IN_FLIGHT_REQUESTS = 4;
+
+// Quotes or depth searches run at once per snapshot section by default
+const DEFAULT_MAX_CONCURRENCY = 4;
+
+// Quotes a flat 0.5% fee when no configured source can quote a request
+const ASSUMED_FEE_QUOTES = new AssumedFeeQuoteSource();
+
+// Ping round trips slower than this degrade the service
+const SLOW_UPSTREAM_MS = 2_000;
+
+// Slippage thresholds measured when the caller does not ask for others
+const DEFAULT_SLIPPAGE_BPS = [50, 100];
+
+// Rates, liquidity and listed assets are derived from the last 24h of operations
+const MARKET_LOOKBACK_MS = 24 * HOUR_MS;
+
+// Rates move with every transfer; the asset list hardly changes
+const SNAPSHOT_CACHE_POLICIES: Record<SnapshotSection, CachePolicy> = {
+  rates: { ttlMs: 15_000, staleMs: 45_000 },
+  liquidity: { ttlMs: 30_000, staleMs: 90_000 },
+  volumes: { ttlMs: 60_000, staleMs: 240_000 },
+  listedAssets: { ttlMs: 600_000, staleMs: 3_000_000 },
+};
+
 /**
- * Rate limiter to control API call frequency
+ * Optional collaborators of the service.
  */
-class RateLimiter {
-  private queue: Array<() => Promise<void>> = [];
-  private processing = false;
-  private lastCallTime = 0;
-
-  constructor(
-    private readonly minIntervalMs: number,
-    private readonly maxRequestsPerSecond: number
-  ) {}
-
-  async waitForSlot(): Promise<void> {
-    return new Promise((resolve) => {
-      const now = Date.now();
-      const timeSinceLastCall = now - this.lastCallTime;
-      const timeToWait = Math.max(0, this.minIntervalMs - timeSinceLastCall);
-
-      setTimeout(() => {
-        this.lastCallTime = Date.now();
-        resolve();
-      }, timeToWait);
-    });
-  }
+export interface WormholeServiceOptions {
+  // Tried in order for every quote; defaults to the fee model, then history
+  quoteSources?: QuoteSource[];
+  // Persists crawled operations between runs; in memory only by default
+  store?: OperationsStore;
+  // How long a sync serves loads before they sync again; 30s by default
+  operationsTtlMs?: number;
+  // Overrides of the snapshot cache policy per section; a zero TTL and
+  // stale period recompute the section on every request
+  snapshotCache?: Partial<Record<SnapshotSection, CachePolicy>>;
+  // Route/notional quotes or route depth searches run at once; 4 by default
+  maxConcurrency?: number;
+  // Sends every Wormholescan request; the global fetch by default
+  transport?: FetchFn;
 }
 
 /**
  * Wormhole Data Provider Service - Collects cross-chain bridge metrics from Wormhole.
  * 
  * This service implements:
- * - Volume metrics for 24h, 7d, 30d windows
- * - Rate quotes with proper decimal normalization
- * - Liquidity depth at 50bps and 100bps thresholds
+ * - Volume metrics for preset windows (1h to 90d, month to date) and explicit ranges
+ * - Rate quotes from pluggable quote sources, with proper decimal normalization
+ * - Liquidity depth along the quoted slippage curve
  * - List of supported assets
  * 
  * All API calls include:
  * - Retry logic with exponential backoff
  * - Rate limiting to respect Wormhole API limits
- * - Proper error handling
+ * - Typed errors (see `./errors`) in the Effect error channel
  */
 export class WormholeService {
-  private rateLimiter: RateLimiter;
+  private http: HttpClient;
+  private dataset: OperationsDataset;
+  private quoteSources: QuoteSource[];
+  private snapshotCache = new SwrCache();
+  private snapshotCachePolicies: Record<SnapshotSection, CachePolicy>;
+  private maxConcurrency: number;
 
   constructor(
-    private readonly baseUrl: string,
-    private readonly timeout: number,
-    private readonly requestsPerSecond: number = 10
+    baseUrl: string,
+    apiKey: string | undefined,
+    timeout: number,
+    requestsPerSecond: number = 10,
+    maxRetries: number = 3,
+    options: WormholeServiceOptions = {}
   ) {
-    // Rate limiter: minimum interval between requests
-    const minIntervalMs = Math.max(100, 1000 / requestsPerSecond);
-    this.rateLimiter = new RateLimiter(minIntervalMs, requestsPerSecond);
+    this.http = new HttpClient({
+      baseUrl,
+      apiKey,
+      timeout,
+      maxRetries,
+      fetchFn: options.transport,
+      // Token bucket: sustained requestsPerSecond, bursts up to the same size
+      limiter: new RateLimiter({
+        requestsPerSecond,
+        burst: requestsPerSecond,
+        maxConcurrency: MAX_IN_FLIGHT_REQUESTS,
+      }),
+    });
+    this.dataset = new OperationsDataset(
+      new OperationsCrawler(this.http),
+      options.operationsTtlMs,
+      options.store ?? null
+    );
+    this.quoteSources = options.quoteSources ?? defaultQuoteSources();
+    this.snapshotCachePolicies = { ...SNAPSHOT_CACHE_POLICIES, ...options.snapshotCache };
+    this.maxConcurrency = Math.max(1, options.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY);
   }
 
   /**
-   * Get complete snapshot of provider data for given routes and notionals.
+   * Get a snapshot of provider data for given routes and notionals.
    *
-   * This method coordinates fetching:
+   * Every metric is computed from one shared operations window (long enough
+   * for the largest volume window and the rate lookback):
    * - Volume metrics for specified time windows
    * - Rate quotes for each route/notional combination
-   * - Liquidity depth at 50bps and 100bps thresholds
+   * - Liquidity depth at the requested slippage thresholds (50 and 100 bps by default)
    * - List of supported assets
+   *
+   * Results are partial rather than all or nothing: whatever fails (a quote,
+   * a route's depth, a window, or a whole section) is left out and listed in
+   * `errors`, and `complete` is false. When the shared window cannot be
+   * loaded, the market sections and short windows retry with just the rate
+   * lookback. The snapshot only fails when none of it could be computed.
+   *
+   * Each section is cached under the normalized input it depends on (sorted,
+   * deduplicated routes, notionals and windows) with its own policy, and
+   * served stale while it recomputes (see `SwrCache`); partial sections are
+   * not cached. The window is only loaded when a section has to be computed;
+   * `cache` reports how each section was served.
+   *
+   * Quotes and depth searches run at most `maxConcurrency` at a time.
+   * Interrupting the effect (a timeout, or the caller going away) cancels
+   * the ones still queued or running, and the operations sync this request
+   * is the last one waiting on. With `deadlineMs`, the snapshot is
+   * interrupted that way once the deadline passes and fails with a
+   * `WormholeTimeoutError`.
    */
-  getSnapshot(params: {
-    routes: Array<{ source: AssetType; destination: AssetType }>;
-    notionals: string[];
-    includeWindows?: Array<"24h" | "7d" | "30d">;
-  }) {
-    return Effect.tryPromise({
-      try: async () => {
-        console.log(`[WormholeService] Fetching snapshot for ${params.routes.length} routes`);
+  getSnapshot(params: SnapshotParams) {
+    const snapshot = Effect.tryPromise({
+      try: (signal) => this.buildSnapshot(params, undefined, signal),
+      catch: (error: unknown) => toWormholeError(error)
+    });
 
-        // Parallel API calls for better performance
-        const [volumes, rates, liquidity, listedAssets] = await Promise.all([
-          this.getVolumes(params.includeWindows || ["24h"]),
-          this.getRates(params.routes, params.notionals),
-          this.getLiquidityDepth(params.routes),
-          this.getListedAssets()
-        ]);
+    const { deadlineMs } = params;
+    return deadlineMs === undefined
+      ? snapshot
+      : snapshot.pipe(
+        Effect.timeoutFail({ duration: Duration.millis(deadlineMs), onTimeout: () => deadlineExceeded(deadlineMs) })
+      );
+  }
 
-        return {
-          volumes,
-          rates,
-          liquidity,
-          listedAssets,
-        } satisfies ProviderSnapshotType;
-      },
-      catch: (error: unknown) =>
-        new Error(`Failed to fetch snapshot: ${error instanceof Error ? error.message : String(error)}`)
+  /**
+   * Stream a snapshot: each volume window, rate, liquidity depth, the asset
+   * list and each error as soon as it is computed, then a summary. Parts
+   * served from the cache arrive together once their section is looked up.
+   * Fails like `getSnapshot` when none of the snapshot can be computed, or
+   * when `deadlineMs` passes before the summary, and cancels outstanding
+   * work like it when the stream is interrupted.
+   */
+  streamSnapshot(params: SnapshotParams) {
+    const events = Stream.async<SnapshotEventType, WormholeServiceError>((emit) => {
+      const controller = new AbortController();
+      let open = true;
+      this.buildSnapshot(params, (event) => {
+        if (open) emit.single(event);
+      }, controller.signal).then(
+        (snapshot) => {
+          open = false;
+          emit.single({
+            type: "summary",
+            complete: snapshot.complete,
+            diagnostics: snapshot.diagnostics,
+            cache: snapshot.cache,
+          });
+          emit.end();
+        },
+        (error: unknown) => {
+          open = false;
+          emit.fail(toWormholeError(error));
+        }
+      );
+
+      // Only an interrupted stream cancels its work: once the snapshot is built,
+      // the signal still drives revalidations of the stale sections it served
+      return Effect.sync(() => {
+        if (!open) return;
+        open = false;
+        controller.abort();
+      });
     });
+
+    const { deadlineMs } = params;
+    return deadlineMs === undefined
+      ? events
+      : events.pipe(
+        Stream.interruptWhen(Effect.fail(deadlineExceeded(deadlineMs)).pipe(Effect.delay(Duration.millis(deadlineMs))))
+      );
   }
 
   /**
-   * Fetch volume metrics from Wormholescan operations data.
-   * Calculates volume by aggregating real transfer data from operations endpoint.
+   * Compute a snapshot (see `getSnapshot`), reporting its parts through
+   * `report` as they are computed, until `signal` aborts.
    */
-  private async getVolumes(windows: Array<"24h" | "7d" | "30d">): Promise<VolumeWindowType[]> {
-    const volumes: VolumeWindowType[] = [];
+  private async buildSnapshot(
+    params: SnapshotParams,
+    report: (event: SnapshotEventType) => void = () => {},
+    signal?: AbortSignal
+  ): Promise<ProviderSnapshotType> {
+    console.log(`[WormholeService] Fetching snapshot for ${params.routes.length} routes`);
 
-    for (const window of windows) {
-      try {
-        // Calculate how many operations to fetch based on time window
-        const pageSize = window === "24h" ? 100 : window === "7d" ? 500 : 1000;
+    const requestedWindows = params.includeWindows || ["24h"];
+    const windows = normalized(requestedWindows, windowLabel);
+    const routes = normalized(params.routes, routeKey);
+    const notionals = normalized(params.notionals.map((notional) => BigInt(notional).toString()), String);
+    const thresholds = params.slippageBpsThresholds ?? DEFAULT_SLIPPAGE_BPS;
+    const reference = notionals.map(BigInt).reduce((min, amount) => (amount < min ? amount : min));
 
-        const response = await fetch(`${this.baseUrl}/operations?pageSize=${pageSize}`, {
-          method: "GET",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          signal: AbortSignal.timeout(this.timeout),
-        });
+    const now = Date.now();
+    const marketSince = now - MARKET_LOOKBACK_MS;
+    const since = Math.min(marketSince, ...windows.map((window) => resolveWindow(window, now).start));
 
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}`);
-        }
+    // Sections computed for this request (or revalidated because of it) share one load
+    const loads = new Map<number, Promise<OperationsWindow>>();
+    const loadSince = (from: number) => {
+      if (!loads.has(from)) loads.set(from, this.loadOperations(from, signal));
+      return loads.get(from)!;
+    };
+    const load = (from: number) =>
+      loadSince(since).catch((error) => {
+        if (signal?.aborted || from < marketSince || since === marketSince) throw error;
+        return loadSince(marketSince);
+      });
+    const loadMarket = async () => {
+      const { operations } = await load(marketSince);
+      return operations.filter((op) => (getOperationTime(op) ?? -Infinity) >= marketSince);
+    };
 
-        const data = await response.json();
-        const operations = data.operations || [];
+    // Parts are computed for the normalized input; present them as requested
+    const presentVolume = (volume: VolumeWindowType): VolumeWindowType => volume.breakdown
+      ? {
+        ...volume,
+        breakdown: {
+          ...volume.breakdown,
+          routes: inRequestOrder(params.routes.map(routeKey), volume.breakdown.routes, (flow) => routeKey(flow.route)),
+        },
+      }
+      : volume;
+    // Echo the notional as requested, e.g. with leading zeros
+    const presentRate = (rate: RateType): RateType => ({
+      ...rate,
+      amountIn: params.notionals.find((notional) => BigInt(notional).toString() === rate.amountIn) ?? rate.amountIn,
+    });
+    const presented = (event: SnapshotEventType): SnapshotEventType => {
+      if (event.type === "volume") return { ...event, volume: presentVolume(event.volume) };
+      if (event.type === "rate") return { ...event, rate: presentRate(event.rate) };
+      return event;
+    };
 
-        // Calculate volume from operations
-        let totalVolume = 0;
-        const now = Date.now();
-        const windowMs = window === "24h" ? 24 * 60 * 60 * 1000 :
-                         window === "7d" ? 7 * 24 * 60 * 60 * 1000 :
-                         30 * 24 * 60 * 60 * 1000;
-
-        for (const op of operations) {
-          // Check if operation is within time window
-          if (op.sourceChain?.timestamp) {
-            const opTime = new Date(op.sourceChain.timestamp).getTime();
-            if (now - opTime <= windowMs) {
-              // Sum up USD amounts from operation data
-              const usdAmount = parseFloat(op.data?.usdAmount || "0");
-              if (!isNaN(usdAmount)) {
-                totalVolume += usdAmount;
-              }
-            }
+    const volumes = await this.cached(
+      "volumes",
+      [windows.map(windowLabel), params.includeBreakdown ? routes.map(routeKey) : null],
+      report,
+      signal,
+      async (progress) => {
+        const result: SectionResult<VolumeWindowType[]> = { value: [], errors: [] };
+        for (const window of windows) {
+          signal?.throwIfAborted();
+          try {
+            const dataset = await load(resolveWindow(window, now).start);
+            const [volume] = this.getVolumes([window], dataset, now, params.includeBreakdown ? routes : null);
+            result.value.push(volume!);
+            progress({ type: "volume", volume: presentVolume(volume!) });
+          } catch (error) {
+            if (isAbortError(error)) throw error;
+            const entry = snapshotError("volumes", error, { window });
+            result.errors.push(entry);
+            progress({ type: "error", error: entry });
           }
         }
+        return result;
+      },
+      (result) => [
+        ...result.value.map((volume) => presented({ type: "volume", volume })),
+        ...result.errors.map((error) => ({ type: "error" as const, error })),
+      ]
+    );
+    const rates = await this.cached(
+      "rates",
+      [routes.map(routeKey), notionals],
+      report,
+      signal,
+      orSectionError("rates", [], async (progress) =>
+        this.getRates(routes, notionals, await loadMarket(), (event) => progress(presented(event)), signal)
+      ),
+      (result) => [
+        ...result.value.map((rate) => presented({ type: "rate", rate })),
+        ...result.errors.map((error) => ({ type: "error" as const, error })),
+      ]
+    );
+    const liquidity = await this.cached(
+      "liquidity",
+      [routes.map(routeKey), reference.toString(), thresholds],
+      report,
+      signal,
+      orSectionError("liquidity", [], async (progress) =>
+        this.getLiquidityDepth(routes, [reference.toString()], thresholds, await loadMarket(), progress, signal)
+      ),
+      (result) => [
+        ...result.value.map((depth) => ({ type: "liquidity" as const, liquidity: depth })),
+        ...result.errors.map((error) => ({ type: "error" as const, error })),
+      ]
+    );
+    const listedAssets = await this.cached(
+      "listedAssets",
+      [],
+      report,
+      signal,
+      orSectionError("listedAssets", null, async (progress) => {
+        const assets = this.getListedAssets(await loadMarket());
+        progress({ type: "listedAssets", listedAssets: assets });
+        return { value: assets, errors: [] };
+      }),
+      (result) => [
+        ...(result.value ? [{ type: "listedAssets" as const, listedAssets: result.value }] : []),
+        ...result.errors.map((error) => ({ type: "error" as const, error })),
+      ]
+    );
 
-        console.log(`[WormholeService] Calculated ${window} volume: $${totalVolume.toFixed(2)} from ${operations.length} operations`);
+    const errors = [volumes, rates, liquidity, listedAssets].flatMap((section) => section.value.errors);
+    const served = volumes.value.value.length + rates.value.value.length + liquidity.value.value.length > 0 ||
+      listedAssets.value.value !== null;
+    if (!served) {
+      // Rethrows what kept every section from loading
+      await load(marketSince);
+    }
+    if (errors.length > 0) {
+      console.warn(`[WormholeService] Serving a partial snapshot, ${errors.length} parts failed:`, errors.map((e) => e.message));
+    }
 
-        volumes.push({
-          window,
-          volumeUsd: totalVolume,
-          measuredAt: new Date().toISOString(),
-        });
-      } catch (error) {
-        console.error(`[WormholeService] Failed to fetch ${window} volume:`, error);
-        throw new Error(`Failed to fetch real volume data for ${window}: ${error instanceof Error ? error.message : String(error)}`);
+    const diagnostics = this.dataset.lastDiagnostics;
+    return {
+      volumes: inRequestOrder(requestedWindows.map(windowLabel), volumes.value.value, (volume) => windowLabel(volume.window))
+        .map(presentVolume),
+      rates: params.routes.flatMap((route) =>
+        params.notionals.flatMap((notional) =>
+          inRequestOrder([rateKey(route, BigInt(notional).toString())], rates.value.value, (rate) => rateKey(rate, rate.amountIn))
+            .map((rate) => ({ ...rate, amountIn: notional }))
+        )
+      ),
+      liquidity: inRequestOrder(params.routes.map(routeKey), liquidity.value.value, (depth) => routeKey(depth.route)),
+      listedAssets: listedAssets.value.value,
+      diagnostics: {
+        operationsDecoded: diagnostics.decoded,
+        operationsMalformed: diagnostics.malformed,
+        issues: Object.entries(diagnostics.issues).map(([issue, count]) => ({ issue, count })),
+      },
+      complete: errors.length === 0,
+      errors,
+      cache: {
+        volumes: this.cacheInfo("volumes", volumes),
+        rates: this.cacheInfo("rates", rates),
+        liquidity: this.cacheInfo("liquidity", liquidity),
+        listedAssets: this.cacheInfo("listedAssets", listedAssets),
+      },
+    };
+  }
+
+  private async loadOperations(since: number, signal?: AbortSignal): Promise<OperationsWindow> {
+    try {
+      return await this.dataset.load(since, signal);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error(`[WormholeService] Failed to load operations:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Look a section up in the snapshot cache, computing it when needed. Only
+   * complete sections are cached, so failed parts are retried on the next
+   * request.
+   *
+   * A computation run for this lookup reports its parts through `report` as
+   * they finish. Otherwise (a cached value, or a computation shared with
+   * another request) the section's `parts` are reported once it resolves.
+   *
+   * A computation is cancelled with the request that started it; requests
+   * that joined it start their own.
+   */
+  private async cached<T>(
+    section: SnapshotSection,
+    input: unknown,
+    report: (event: SnapshotEventType) => void,
+    signal: AbortSignal | undefined,
+    compute: (progress: (event: SnapshotEventType) => void) => Promise<SectionResult<T>>,
+    parts: (result: SectionResult<T>) => SnapshotEventType[]
+  ): Promise<CachedValue<SectionResult<T>>> {
+    let live = true;
+    let computedHere = false;
+    let result: CachedValue<SectionResult<T>>;
+    try {
+      result = await this.snapshotCache.get(
+        `${section}:${JSON.stringify(input)}`,
+        this.snapshotCachePolicies[section],
+        () => {
+          computedHere = true;
+          // A background revalidation must not report parts after the section resolved
+          return compute((event) => {
+            if (live) report(event);
+          });
+        },
+        (result) => result.errors.length === 0
+      );
+    } catch (error) {
+      if (isAbortError(error) && !signal?.aborted) {
+        return this.cached(section, input, report, signal, compute, parts);
       }
+      throw error;
+    } finally {
+      live = false;
+    }
+
+    if (result.status !== "miss" || !computedHere) {
+      parts(result.value).forEach(report);
     }
+    return result;
+  }
 
-    return volumes;
+  private cacheInfo(section: SnapshotSection, cached: CachedValue<unknown>) {
+    return { status: cached.status, ageMs: cached.ageMs, ttlMs: this.snapshotCachePolicies[section].ttlMs };
   }
 
   /**
-   * Calculate rate quotes from recent Wormholescan operations data.
+   * Calculate volume metrics from the shared operations window.
+   * Sums `usdAmount` for every operation inside each requested window.
+   *
+   * When the crawl stopped before reaching back to the start of a window,
+   * the total only covers the crawled part (see `windowProvenance`).
+   *
+   * With `breakdownRoutes`, each window also breaks its operations down by
+   * chain pair, asset and route (the route's flow, see `filterRouteFlow`).
    */
-  private async getRates(
-    routes: Array<{ source: AssetType; destination: AssetType }>,
-    notionals: string[]
-  ): Promise<RateType[]> {
-    const rates: RateType[] = [];
+  private getVolumes(
+    windows: VolumeWindowSpecType[],
+    dataset: OperationsWindow,
+    now: number,
+    breakdownRoutes: Route[] | null = null
+  ): VolumeWindowType[] {
+    const { operations } = dataset;
 
-    // Since Wormholescan doesn't have quote endpoint, we calculate from recent operations
-    for (const route of routes) {
-      for (const notional of notionals) {
-        try {
-          // Fetch recent operations to analyze rates
-          const response = await fetch(`${this.baseUrl}/operations?pageSize=50`, {
-            method: "GET",
-            headers: {
-              "Content-Type": "application/json",
-            },
-            signal: AbortSignal.timeout(this.timeout),
-          });
+    return windows.map((window) => {
+      const range = resolveWindow(window, now);
+      const samples: WormholescanOperationType[] = [];
+      let totalVolume = 0;
 
-          if (!response.ok) {
-            throw new Error(`HTTP ${response.status}`);
-          }
+      for (const op of operations) {
+        const opTime = getOperationTime(op);
+        if (opTime === null || !inWindow(opTime, range)) continue;
 
-          const data = await response.json();
-          const operations = data.operations || [];
+        samples.push(op);
+        const usdAmount = parseFloat(op.data?.usdAmount || "0");
+        if (!isNaN(usdAmount)) {
+          totalVolume += usdAmount;
+        }
+      }
 
-          // Find recent operations matching the route (exact chain match)
-          const matchingOps = operations.filter((op: any) => {
-            const fromChain = String(op.emitterChain);
-            const toChain = String(op.content?.standarizedProperties?.toChain || "");
-            return fromChain === route.source.chainId && toChain === route.destination.chainId;
-          });
+      console.log(`[WormholeService] Calculated ${windowLabel(window)} volume: $${totalVolume.toFixed(2)} from ${samples.length} operations`);
 
-          // Calculate average rate from recent operations with valid data
-          let totalRate = 0;
-          let count = 0;
+      return {
+        window,
+        from: new Date(range.start).toISOString(),
+        to: new Date(range.end ?? now).toISOString(),
+        volumeUsd: totalVolume,
+        measuredAt: new Date(now).toISOString(),
+        provenance: windowProvenance(range, samples, dataset, now),
+        ...(breakdownRoutes && {
+          breakdown: buildVolumeBreakdown(
+            samples,
+            breakdownRoutes.map((route) => ({ route, operations: this.filterRouteFlow(route, samples) }))
+          ),
+        }),
+      };
+    });
+  }
 
-          for (const op of matchingOps.slice(0, 10)) {
-            const tokenAmount = parseFloat(op.data?.tokenAmount || "0");
-            const usdAmount = parseFloat(op.data?.usdAmount || "0");
+  /**
+   * Get bucketed volume over a window, from the same operations dataset as
+   * snapshots. Buckets are aligned to UTC hours or days; the first and last
+   * only count the part inside the window. With `route`, only the route's
+   * flow counts (see `filterRouteFlow`); with `symbol`, only transfers of that
+   * token.
+   */
+  getVolumeSeries(params: {
+    window?: VolumeWindowSpecType;
+    interval?: "hour" | "day";
+    route?: Route;
+    symbol?: string;
+  }) {
+    return Effect.tryPromise({
+      try: async (signal) => {
+        const window = params.window ?? "7d";
+        const interval = params.interval ?? "day";
+        const now = Date.now();
+        const range = resolveWindow(window, now);
 
-            if (tokenAmount > 0 && usdAmount > 0) {
-              totalRate += usdAmount / tokenAmount;
-              count++;
-            }
-          }
+        console.log(`[WormholeService] Fetching ${interval}ly volume series for ${windowLabel(window)}`);
 
-          // Use calculated rate or fallback to 0.995 (0.5% fee)
-          const avgRate = count > 0 ? totalRate / count : 0.995;
-          const amountInNum = parseFloat(notional);
-          const amountOutNum = amountInNum * avgRate;
+        const dataset = await this.dataset.load(range.start, signal);
 
-          console.log(`[WormholeService] Rate for ${route.source.chainId}->${route.destination.chainId}: ${avgRate.toFixed(4)} (from ${count} operations)`);
+        let samples = dataset.operations.filter((op) => {
+          const opTime = getOperationTime(op);
+          return opTime !== null && inWindow(opTime, range);
+        });
+        if (params.route) {
+          samples = this.filterRouteFlow(params.route, samples);
+        }
+        if (params.symbol) {
+          samples = samples.filter((op) => op.data?.symbol === params.symbol);
+        }
 
-          rates.push({
-            source: route.source,
-            destination: route.destination,
-            amountIn: notional,
-            amountOut: Math.floor(amountOutNum).toString(),
-            effectiveRate: avgRate,
-            totalFeesUsd: amountInNum * (1 - avgRate),
-            quotedAt: new Date().toISOString(),
-          });
-        } catch (error) {
-          console.error(
-            `[WormholeService] Failed to calculate rate for route ${route.source.chainId}->${route.destination.chainId}:`,
-            error
-          );
-          throw error;
+        const intervalMs = INTERVAL_MS[interval];
+        const buckets = bucketRange(range.start, range.end ?? now, intervalMs)
+          .map((bucket) => ({ ...bucket, volumeUsd: 0, transfers: 0 }));
+
+        for (const op of samples) {
+          const bucket = buckets[Math.floor((getOperationTime(op)! - buckets[0]!.start) / intervalMs)];
+          if (!bucket) continue;
+
+          bucket.transfers++;
+          const usdAmount = parseFloat(op.data?.usdAmount || "0");
+          if (!isNaN(usdAmount)) {
+            bucket.volumeUsd += usdAmount;
+          }
         }
-      }
-    }
 
-    return rates;
+        return {
+          window,
+          from: new Date(range.start).toISOString(),
+          to: new Date(range.end ?? now).toISOString(),
+          interval,
+          buckets: buckets.map((bucket) => ({
+            start: new Date(bucket.start).toISOString(),
+            end: new Date(bucket.end).toISOString(),
+            volumeUsd: bucket.volumeUsd,
+            transfers: bucket.transfers,
+          })),
+          measuredAt: new Date(now).toISOString(),
+          provenance: windowProvenance(range, samples, dataset, now),
+        } satisfies VolumeSeriesType;
+      },
+      catch: (error: unknown) => toWormholeError(error)
+    });
   }
 
   /**
-   * Calculate liquidity depth from real Wormholescan operations data.
-   * Analyzes recent large transfers to determine available liquidity.
+   * Quote every route/notional combination through the quote sources, in
+   * order, using recent route operations from the shared window. The first
+   * source that can quote a request produces its rate; the assumed-fee source
+   * always can.
+   *
+   * Combinations are quoted at most `maxConcurrency` at a time and reported
+   * as they finish; the result keeps route/notional order.
    */
-  private async getLiquidityDepth(
-    routes: Array<{ source: AssetType; destination: AssetType }>
-  ): Promise<LiquidityDepthType[]> {
-    const liquidityData: LiquidityDepthType[] = [];
-
+  private async getRates(
+    routes: Route[],
+    notionals: string[],
+    operations: WormholescanOperationType[],
+    progress: (event: SnapshotEventType) => void = () => {},
+    signal?: AbortSignal
+  ): Promise<SectionResult<RateType[]>> {
+    const requests: Array<{ route: Route; notional: string; request: QuoteRequest }> = [];
+    const unresolved: SnapshotErrorType[] = [];
     for (const route of routes) {
-      // Fetch recent large transfers for this route (max pageSize is 100)
-      const response = await fetch(`${this.baseUrl}/operations?pageSize=100`, {
-        method: "GET",
-        headers: { "Content-Type": "application/json" },
-        signal: AbortSignal.timeout(this.timeout),
-      });
+      const sourceChain = resolveChain(route.source.chainId);
+      const destinationChain = resolveChain(route.destination.chainId);
+      if (!sourceChain || !destinationChain) {
+        const entry = unknownChainError("rates", route);
+        progress({ type: "error", error: entry });
+        unresolved.push(entry);
+        continue;
+      }
+
+      const routeOps = this.filterRouteOperations(route, operations);
+      console.log(`[WormholeService] Quoting ${route.source.chainId}->${route.destination.chainId} from ${routeOps.length} operations`);
+
+      for (const notional of notionals) {
+        requests.push({
+          route,
+          notional,
+          request: {
+            source: route.source,
+            destination: route.destination,
+            sourceChain,
+            destinationChain,
+            amountIn: BigInt(notional),
+            operations: routeOps,
+          },
+        });
+      }
+    }
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}`);
+    const results = await this.forEachBounded(requests, async ({ route, notional, request }) => {
+      let quote: Quote;
+      try {
+        ({ quote } = await this.quote(request));
+      } catch (error) {
+        const entry = snapshotError("rates", error, { route, notional });
+        progress({ type: "error", error: entry });
+        return { error: entry };
       }
 
-      const data = await response.json();
-      const operations = data.operations || [];
+      const rate: RateType = {
+        source: route.source,
+        destination: route.destination,
+        amountIn: notional,
+        amountOut: quote.amountOut.toString(),
+        effectiveRate: effectiveRate(request.amountIn, quote.amountOut, route.source.decimals, route.destination.decimals),
+        totalFeesUsd: quote.feesUsd,
+        quoteSource: quote.source,
+        protocol: quote.protocol,
+        quotedAt: new Date().toISOString(),
+        provenance: quoteProvenance(quote),
+      };
+      progress({ type: "rate", rate });
+      return { rate };
+    }, signal);
 
-      // Filter operations for this route (exact chain match)
-      const routeOps = operations.filter((op: any) => {
-        const fromChain = String(op.emitterChain);
-        const toChain = String(op.content?.standarizedProperties?.toChain || "");
-        return fromChain === route.source.chainId && toChain === route.destination.chainId;
-      });
+    return {
+      value: results.flatMap((result) => (result.rate ? [result.rate] : [])),
+      errors: [...unresolved, ...results.flatMap((result) => (result.error ? [result.error] : []))],
+    };
+  }
+
+  /**
+   * Quote a request through the quote sources in order, returning the quote
+   * with the source that produced it.
+   */
+  private async quote(request: QuoteRequest): Promise<{ quote: Quote; source: QuoteSource }> {
+    for (const source of this.quoteSources) {
+      const quote = await source.quote(request);
+      if (quote) return { quote, source };
+    }
+    return { quote: await ASSUMED_FEE_QUOTES.quote(request), source: ASSUMED_FEE_QUOTES };
+  }
 
-      // Analyze transfer amounts to determine liquidity
-      const amounts = routeOps
-        .map((op: any) => parseFloat(op.data?.usdAmount || "0"))
-        .filter((amt: number) => amt > 0)
-        .sort((a: number, b: number) => b - a); // Largest first
+  /**
+   * Estimate liquidity depth along each route's slippage curve.
+   *
+   * The route is quoted at the smallest requested notional; the source that
+   * produced that quote is then probed at growing amounts (see
+   * `estimateDepth`) until slippage against its fee-free marginal rate
+   * exceeds each threshold, or it stops quoting. `maxAmountIn` is in source
+   * smallest units, `limitedBy` says which of the two bounds it, and both
+   * are null when neither does.
+   *
+   * Routes are searched at most `maxConcurrency` at a time and reported as
+   * they finish; the result keeps route order.
+   */
+  private async getLiquidityDepth(
+    routes: Route[],
+    notionals: string[],
+    slippageBpsThresholds: number[],
+    operations: WormholescanOperationType[],
+    progress: (event: SnapshotEventType) => void = () => {},
+    signal?: AbortSignal
+  ): Promise<SectionResult<LiquidityDepthType[]>> {
+    const reference = notionals.map(BigInt).reduce((min, amount) => (amount < min ? amount : min));
 
-      // Get 95th and 90th percentile as liquidity thresholds
-      const idx95 = Math.floor(amounts.length * 0.05); // Top 5%
-      const idx90 = Math.floor(amounts.length * 0.10); // Top 10%
+    const results = await this.forEachBounded(routes, async (route) => {
+      const sourceChain = resolveChain(route.source.chainId);
+      const destinationChain = resolveChain(route.destination.chainId);
+      if (!sourceChain || !destinationChain) {
+        const entry = unknownChainError("liquidity", route);
+        progress({ type: "error", error: entry });
+        return { error: entry };
+      }
 
-      const maxLiquidity50 = amounts[idx95] || 0;
-      const maxLiquidity100 = amounts[idx90] || 0;
+      const request: QuoteRequest = {
+        source: route.source,
+        destination: route.destination,
+        sourceChain,
+        destinationChain,
+        amountIn: reference,
+        operations: this.filterRouteOperations(route, operations),
+      };
+      let quote: Quote;
+      let source: QuoteSource;
+      let estimates: DepthEstimate[];
+      try {
+        ({ quote, source } = await this.quote(request));
+        estimates = await estimateDepth(
+          async (amountIn) => {
+            if (amountIn === reference) return quote.amountOut;
+            return (await source.quote({ ...request, amountIn }))?.amountOut ?? null;
+          },
+          reference,
+          slippageBpsThresholds
+        );
+      } catch (error) {
+        const entry = snapshotError("liquidity", error, { route });
+        progress({ type: "error", error: entry });
+        return { error: entry };
+      }
 
-      console.log(`[WormholeService] Liquidity: 50bps=$${maxLiquidity50}, 100bps=$${maxLiquidity100}`);
+      console.log(`[WormholeService] Liquidity for ${route.source.chainId}->${route.destination.chainId} (${source.name}): ${estimates.map((e) => `${e.slippageBps}bps=${e.maxAmountIn} (${e.limitedBy})`).join(", ")}`);
 
-      liquidityData.push({
+      const depth: LiquidityDepthType = {
         route,
-        thresholds: [
-          {
-            maxAmountIn: maxLiquidity50.toFixed(0),
-            slippageBps: 50,
-          },
-          {
-            maxAmountIn: maxLiquidity100.toFixed(0),
-            slippageBps: 100,
-          },
-        ],
+        thresholds: estimates.map((estimate) => ({
+          maxAmountIn: estimate.maxAmountIn?.toString() ?? null,
+          slippageBps: estimate.slippageBps,
+          limitedBy: estimate.limitedBy,
+        })),
         measuredAt: new Date().toISOString(),
-      });
-    }
+        provenance: quoteProvenance(quote),
+      };
+      progress({ type: "liquidity", liquidity: depth });
+      return { depth };
+    }, signal);
 
-    return liquidityData;
+    return {
+      value: results.flatMap((result) => (result.depth ? [result.depth] : [])),
+      errors: results.flatMap((result) => (result.error ? [result.error] : [])),
+    };
   }
 
   /**
-   * Get list of assets from real Wormholescan operations data.
-   * Extracts unique assets from recent transfers.
+   * Run `task` for every item, at most `maxConcurrency` at a time, and
+   * collect the results in item order. When `signal` aborts, queued items
+   * are dropped and running ones interrupted, and this rejects with an
+   * AbortError. Tasks are expected to turn their own failures into results.
    */
-  private async getListedAssets(): Promise<ListedAssetsType> {
-    // Wormholescan API has a max pageSize of 100
-    const response = await fetch(`${this.baseUrl}/operations?pageSize=100`, {
-      method: "GET",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      signal: AbortSignal.timeout(this.timeout),
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}`);
+  private async forEachBounded<A, B>(
+    items: A[],
+    task: (item: A) => Promise<B>,
+    signal?: AbortSignal
+  ): Promise<B[]> {
+    try {
+      return await Effect.runPromise(
+        Effect.forEach(items, (item) => Effect.promise(() => task(item)), { concurrency: this.maxConcurrency }),
+        { signal }
+      );
+    } catch (error) {
+      signal?.throwIfAborted();
+      throw error;
     }
+  }
 
-    const data = await response.json();
-    const operations = data.operations || [];
-
+  /**
+   * Get list of assets from operations in the shared window.
+   * Extracts unique assets from recent transfers; decimals come from
+   * Wormholescan when it reports them, else from the bundled token list.
+   */
+  private getListedAssets(operations: WormholescanOperationType[]): ListedAssetsType {
     // Extract unique assets from operations
-    const assetMap = new Map<string, AssetType>();
+    const assetMap = new Map<string, ListedAssetType>();
 
     for (const op of operations) {
-      const symbol = op.data?.symbol;
-      const chainId = String(op.emitterChain);
-      const tokenAddress = op.content?.standarizedProperties?.tokenAddress;
-
-      if (symbol && chainId && tokenAddress) {
-        const key = `${chainId}-${tokenAddress}`;
-        if (!assetMap.has(key)) {
-          assetMap.set(key, {
-            chainId,
-            assetId: tokenAddress,
-            symbol,
-            decimals: 6, // Most common for stablecoins
-          });
-        }
-      }
+      const properties = op.content?.standarizedProperties;
+      // The token address lives on the token's origin chain, not the emitter chain
+      const chain = chainFromWormholeId(properties?.tokenChain ?? op.emitterChain);
+      if (!chain || !properties?.tokenAddress) continue;
+
+      const tokenAddress = normalizeTokenAddress(chain, properties.tokenAddress);
+      const chainId = formatChainId(chain);
+      const key = `${chainId}-${tokenAddress}`;
+      const existing = assetMap.get(key);
+      // Keep looking while an asset's decimals are unresolved
+      if (existing && existing.decimalsSource !== "unknown") continue;
+
+      const symbol = op.data?.symbol || existing?.symbol || lookupToken(chain, tokenAddress)?.symbol;
+      if (!symbol) continue;
+
+      const { decimals, source } = resolveTokenDecimals(chain, tokenAddress, properties.normalizedDecimals);
+      assetMap.set(key, {
+        chainId,
+        assetId: tokenAddress,
+        symbol,
+        decimals,
+        decimalsSource: source,
+      });
     }
 
     const assets = Array.from(assetMap.values());
-    console.log(`[WormholeService] Found ${assets.length} unique assets from operations`);
+    const unresolved = assets.filter((asset) => asset.decimals === null).length;
+    console.log(`[WormholeService] Found ${assets.length} unique assets from operations (${unresolved} with unknown decimals)`);
 
     return {
       assets,
@@ -371,51 +868,278 @@ export class WormholeService {
   }
 
   /**
-   * Health check endpoint
-   * Always succeeds - health check should be resilient to API failures
+   * Operations whose source and destination chains match the route. Route
+   * chain ids may be given in any form `resolveChain` accepts; operations
+   * carry Wormhole chain ids.
+   */
+  private filterRouteOperations(
+    route: Route,
+    operations: WormholescanOperationType[]
+  ): WormholescanOperationType[] {
+    const source = resolveChain(route.source.chainId);
+    const destination = resolveChain(route.destination.chainId);
+    if (!source || !destination) {
+      console.warn(`[WormholeService] Unknown chain in route ${route.source.chainId}->${route.destination.chainId}`);
+      return [];
+    }
+
+    return operations.filter((op) => {
+      const fromChain = op.content?.standarizedProperties?.fromChain ?? op.emitterChain;
+      const toChain = op.content?.standarizedProperties?.toChain;
+      return fromChain === source.wormholeId && toChain === destination.wormholeId;
+    });
+  }
+
+  /**
+   * A route's flow: operations between its chains carrying the source
+   * asset's symbol.
+   */
+  private filterRouteFlow(
+    route: Route,
+    operations: WormholescanOperationType[]
+  ): WormholescanOperationType[] {
+    return this.filterRouteOperations(route, operations).filter((op) => op.data?.symbol === route.source.symbol);
+  }
+
+  /**
+   * Sync new operations into the dataset. Incremental once the dataset
+   * reaches back over the market lookback, and everything already covered
+   * stays covered. Interrupting it cancels the crawl unless another caller
+   * is waiting on the same sync.
+   */
+  sync() {
+    return Effect.tryPromise({
+      try: (signal) => this.dataset.refresh(Date.now() - MARKET_LOOKBACK_MS, signal),
+      catch: (error: unknown) => toWormholeError(error)
+    });
+  }
+
+  /**
+   * Sync now and then every `intervalMs` until interrupted, so snapshots
+   * find warm data. Failed syncs are logged and retried on the next tick.
+   */
+  syncEvery(intervalMs: number) {
+    return this.sync().pipe(
+      Effect.catchAll((error) =>
+        Effect.sync(() => console.warn(`[WormholeService] Background sync failed:`, error))
+      ),
+      Effect.repeat(Schedule.spaced(Duration.millis(intervalMs))),
+      Effect.asVoid
+    );
+  }
+
+  /**
+   * Health check endpoint. Probes Wormholescan with a one-operation request
+   * and reports it next to the last sync, the rate limiter and the snapshot
+   * cache (see `healthStatus` for how they add up). Never fails: an
+   * unhealthy provider is reported, not thrown.
    */
   ping() {
     const self = this;
     return Effect.gen(function* () {
-      // Try to ping the API, but don't fail if it's unavailable
-      const pingResult = yield* Effect.tryPromise({
-        try: async () => {
-          await self.rateLimiter.waitForSlot();
-          
-          const controller = new AbortController();
-          const timeoutId = setTimeout(() => controller.abort(), 5000);
-          
-          try {
-            // Wormholescan doesn't have a dedicated health endpoint
-            // Use lightweight operations query to verify connectivity
-            const response = await fetch(`${self.baseUrl}/operations?pageSize=1`, {
-              method: "GET",
-              headers: {
-                "Content-Type": "application/json",
-              },
-              signal: controller.signal,
-            });
-            clearTimeout(timeoutId);
-            
-            if (!response.ok) {
-              throw new Error(`Health check returned ${response.status}`);
-            }
-            
-            return { status: "ok" as const };
-          } catch (error) {
-            clearTimeout(timeoutId);
-            throw error;
-          }
-        },
-        catch: (error: unknown) => new Error(`Health check failed: ${error instanceof Error ? error.message : String(error)}`)
-      }).pipe(
-        Effect.catchAll(() => Effect.succeed({ status: "ok" as const }))
-      );
-      
+      const { pausedForMs } = self.http.limiter.stats;
+      const upstream = pausedForMs > 0
+        // Don't queue behind a 429 back-off; the back-off alone degrades the service
+        ? { reachable: true, latencyMs: null, error: `Rate limited, backing off for ${pausedForMs}ms` }
+        : yield* self.probeUpstream();
+
+      const { syncedAt, lastSyncFailed } = self.dataset.syncHealth;
+      const limiter = self.http.limiter.stats;
+
       return {
-        status: pingResult.status,
+        status: healthStatus(upstream, syncedAt, lastSyncFailed, limiter),
         timestamp: new Date().toISOString(),
-      };
+        upstream,
+        lastSyncAt: syncedAt === null ? null : new Date(syncedAt).toISOString(),
+        rateLimiter: {
+          saturation: limiter.saturation,
+          queued: limiter.queued,
+          inFlight: limiter.inFlight,
+          pausedForMs: limiter.pausedForMs,
+        },
+        cacheAgeMs: self.snapshotCache.stats.newestAgeMs,
+      } satisfies HealthType;
     });
   }
+
+  private probeUpstream() {
+    const startedAt = Date.now();
+    return Effect.tryPromise({
+      // Wormholescan doesn't have a dedicated health endpoint
+      try: () => this.http.getJson("/operations", { pageSize: 1 }, { timeout: 5000, maxRetries: 0 }),
+      catch: (error: unknown) => toWormholeError(error)
+    }).pipe(
+      Effect.map(() => ({ reachable: true, latencyMs: Date.now() - startedAt, error: null })),
+      Effect.catchAll((error) =>
+        Effect.succeed({
+          // A 429 is an answer: Wormholescan is up, we are asking too much
+          reachable: error instanceof WormholeRateLimitError,
+          latencyMs: null,
+          error: error.message,
+        })
+      )
+    );
+  }
+}
+
+/**
+ * Compute a section, turning a failure of the whole section into its error
+ * entry.
+ */
+function orSectionError<T>(
+  section: SnapshotSection,
+  empty: T,
+  compute: (progress: (event: SnapshotEventType) => void) => Promise<SectionResult<T>>
+): (progress: (event: SnapshotEventType) => void) => Promise<SectionResult<T>> {
+  return async (progress) => {
+    try {
+      return await compute(progress);
+    } catch (error) {
+      // A cancelled request has no section to report
+      if (isAbortError(error)) throw error;
+      const entry = snapshotError(section, error);
+      progress({ type: "error", error: entry });
+      return { value: empty, errors: [entry] };
+    }
+  };
+}
+
+function deadlineExceeded(deadlineMs: number): WormholeTimeoutError {
+  return new WormholeTimeoutError({
+    message: `Snapshot did not complete within its ${deadlineMs}ms deadline`,
+    timeoutMs: deadlineMs,
+  });
+}
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === "AbortError";
+}
+
+function snapshotError(
+  section: SnapshotSection,
+  error: unknown,
+  subject: { route?: Route; notional?: string; window?: VolumeWindowSpecType } = {}
+): SnapshotErrorType {
+  const wormholeError = toWormholeError(error);
+  return {
+    section,
+    ...subject,
+    code: wormholeError._tag,
+    message: wormholeError.message,
+    retryable: isRetryableError(wormholeError),
+  };
+}
+
+/**
+ * Error entry for a route whose chains are not in the registry; asking again
+ * will not resolve them.
+ */
+function unknownChainError(section: SnapshotSection, route: Route): SnapshotErrorType {
+  return {
+    section,
+    route,
+    code: "UnknownChain",
+    message: `Unknown chain in route ${route.source.chainId}->${route.destination.chainId}`,
+    retryable: false,
+  };
+}
+
+function quoteProvenance(quote: Quote) {
+  return buildProvenance(
+    // Historical quotes come straight from Wormholescan operations
+    quote.source === "historical" ? "wormholescan-operations" : quote.source,
+    quote.samples,
+    { fallbackUsed: quote.source === "assumed", confidence: quote.confidence }
+  );
+}
+
+function windowLabel(window: VolumeWindowSpecType): string {
+  return typeof window === "string" ? window : `${window.from}/${window.to}`;
+}
+
+/**
+ * Provenance of a volume metric over `range`. When the crawl stopped before
+ * reaching back to the start of the range, only the crawled part is covered
+ * and confidence is the share of the range covered. Coverage ends at the
+ * last sync, so a window served from storage during an outage scores lower;
+ * the part of an explicit range that lies in the future is not counted.
+ */
+function windowProvenance(
+  range: WindowRange,
+  samples: WormholescanOperationType[],
+  dataset: OperationsWindow,
+  now: number
+): ProvenanceType {
+  const measurableEnd = Math.min(range.end ?? now, now);
+  const coveredTo = Math.min(measurableEnd, dataset.syncedAt);
+  if (measurableEnd <= range.start) {
+    return buildProvenance("wormholescan-operations", samples, { coveredFrom: null, coveredTo: null, confidence: 0 });
+  }
+
+  let oldest = coveredTo;
+  for (const op of dataset.operations) {
+    oldest = Math.min(oldest, getOperationTime(op) ?? oldest);
+  }
+  const coveredFrom = dataset.reachedBoundary ? range.start : Math.max(range.start, oldest);
+
+  return buildProvenance("wormholescan-operations", samples, {
+    coveredFrom: Math.min(coveredFrom, coveredTo),
+    coveredTo,
+    confidence: Math.max(0, coveredTo - coveredFrom) / (measurableEnd - range.start),
+  });
+}
+
+/**
+ * Identity of a route for caching: both assets, field by field.
+ */
+function routeKey(route: Route): string {
+  const { source, destination } = route;
+  return JSON.stringify([
+    source.chainId, source.assetId, source.symbol, source.decimals,
+    destination.chainId, destination.assetId, destination.symbol, destination.decimals,
+  ]);
+}
+
+function rateKey(route: Route, amountIn: string): string {
+  return `${routeKey(route)}|${amountIn}`;
+}
+
+/**
+ * Distinct items sorted by key, so requests that differ only in order or
+ * repetition share cache entries.
+ */
+function normalized<T>(items: T[], key: (item: T) => string): T[] {
+  const distinct = new Map(items.map((item) => [key(item), item] as const));
+  return Array.from(distinct.keys()).sort().map((k) => distinct.get(k)!);
+}
+
+/**
+ * Results computed from normalized input, put back in the order (and with
+ * the repetitions) of the request's keys. Keys without a result are skipped.
+ */
+function inRequestOrder<R>(keys: string[], results: R[], resultKey: (result: R) => string): R[] {
+  const byKey = new Map(results.map((result) => [resultKey(result), result] as const));
+  return keys.flatMap((key) => {
+    const result = byKey.get(key);
+    return result ? [result] : [];
+  });
+}
+
+/**
+ * Down when Wormholescan cannot be reached and nothing has been synced to
+ * serve instead; degraded when data is served but stale (the last sync
+ * failed, or Wormholescan is unreachable), or when upstream is slow or rate
+ * limiting us; ok otherwise.
+ */
+function healthStatus(
+  upstream: { reachable: boolean; latencyMs: number | null; error: string | null },
+  syncedAt: number | null,
+  lastSyncFailed: boolean,
+  limiter: RateLimiterStats
+): HealthType["status"] {
+  if (!upstream.reachable) return syncedAt === null ? "down" : "degraded";
+  if (upstream.error !== null || lastSyncFailed) return "degraded";
+  if (limiter.pausedForMs > 0 || limiter.saturation >= 1) return "degraded";
+  if (upstream.latencyMs !== null && upstream.latencyMs > SLOW_UPSTREAM_MS) return "degraded";
+  return "ok";
 }
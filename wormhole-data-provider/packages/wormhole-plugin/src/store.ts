@@ -0,0 +1,144 @@
+import { appendFile, mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+import { WormholescanOperation, type WormholescanOperationType } from "./wormholescan";
+
+/**
+ * How far the stored operations can be trusted: every operation with a
+ * source timestamp from `coveredFrom` up to `syncedAt` has been crawled.
+ */
+export interface SyncState {
+  coveredFrom: number | null;
+  // Start of the last successful sync
+  syncedAt: number | null;
+}
+
+export interface StoredOperations {
+  operations: WormholescanOperationType[];
+  state: SyncState;
+}
+
+/**
+ * Persists crawled operations between runs so the dataset only has to
+ * crawl what is new since the last sync.
+ */
+export interface OperationsStore {
+  // Everything stored, or null when nothing has been stored yet
+  read(): Promise<StoredOperations | null>;
+  // Record operations added by a sync (newer versions replace older ones by
+  // id) and the state after it; `retained` is everything kept after pruning
+  write(added: WormholescanOperationType[], state: SyncState, retained: WormholescanOperationType[]): Promise<void>;
+}
+
+const STATE_FILE = "state.json";
+const OPERATIONS_FILE = "operations.ndjson";
+const FORMAT_VERSION = 1;
+
+/**
+ * File-based store: an append-only NDJSON log of operations and a small
+ * state file, both in `directory`.
+ *
+ * Later lines win when an operation is logged twice. The log is rewritten
+ * from the retained operations once it holds more than twice as many lines,
+ * which drops superseded and pruned entries. Lines that fail to parse or
+ * decode (e.g. a write cut short by a crash) are skipped on read. Writes run
+ * one at a time in call order, so overlapping syncs cannot interleave their
+ * appends, compactions and temporary files.
+ */
+export class FileOperationsStore implements OperationsStore {
+  private lines = 0;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly directory: string) {}
+
+  async read(): Promise<StoredOperations | null> {
+    const stateText = await readIfExists(join(this.directory, STATE_FILE));
+    if (stateText === null) return null;
+
+    const state = JSON.parse(stateText) as SyncState & { version?: number };
+    if (state.version !== FORMAT_VERSION) {
+      console.warn(`[FileOperationsStore] Ignoring store in unsupported format ${state.version}`);
+      return null;
+    }
+
+    const operations = new Map<string, WormholescanOperationType>();
+    const log = (await readIfExists(join(this.directory, OPERATIONS_FILE))) ?? "";
+    let skipped = 0;
+    this.lines = 0;
+
+    for (const line of log.split("\n")) {
+      if (line.trim() === "") continue;
+      this.lines++;
+
+      try {
+        const result = WormholescanOperation.safeParse(JSON.parse(line));
+        if (result.success) {
+          operations.set(result.data.id, result.data);
+          continue;
+        }
+      } catch {
+        // Torn line, counted below
+      }
+      skipped++;
+    }
+
+    if (skipped > 0) {
+      console.warn(`[FileOperationsStore] Skipped ${skipped} unreadable stored operations`);
+    }
+
+    return {
+      operations: Array.from(operations.values()),
+      state: { coveredFrom: state.coveredFrom, syncedAt: state.syncedAt },
+    };
+  }
+
+  write(
+    added: WormholescanOperationType[],
+    state: SyncState,
+    retained: WormholescanOperationType[]
+  ): Promise<void> {
+    const write = this.writing.then(() => this.persist(added, state, retained));
+    // A failed write does not hold up the next one
+    this.writing = write.catch(() => {});
+    return write;
+  }
+
+  private async persist(
+    added: WormholescanOperationType[],
+    state: SyncState,
+    retained: WormholescanOperationType[]
+  ): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+
+    const log = join(this.directory, OPERATIONS_FILE);
+    if (this.lines + added.length > 2 * retained.length) {
+      await writeAtomically(log, toNdjson(retained));
+      this.lines = retained.length;
+    } else if (added.length > 0) {
+      await appendFile(log, toNdjson(added));
+      this.lines += added.length;
+    }
+
+    // The state goes last: a crash in between leaves extra operations, never missing ones
+    await writeAtomically(join(this.directory, STATE_FILE), JSON.stringify({ version: FORMAT_VERSION, ...state }));
+  }
+}
+
+function toNdjson(operations: WormholescanOperationType[]): string {
+  return operations.map((op) => `${JSON.stringify(op)}\n`).join("");
+}
+
+async function readIfExists(path: string): Promise<string | null> {
+  try {
+    return await readFile(path, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+async function writeAtomically(path: string, contents: string): Promise<void> {
+  const temporary = `${path}.tmp`;
+  await writeFile(temporary, contents);
+  await rename(temporary, path);
+}
@@ -0,0 +1,115 @@
+import { type Chain, chainFromWormholeId } from "./chains";
+
+/**
+ * Static metadata for a token on one chain.
+ */
+export interface TokenMetadata {
+  // Wormhole chain id of the chain the address lives on
+  wormholeChainId: number;
+  address: string;
+  symbol: string;
+  decimals: number;
+}
+
+// Where the decimals of a listed asset came from
+export type DecimalsSource = "wormholescan" | "token-list" | "unknown";
+
+export interface ResolvedDecimals {
+  decimals: number | null;
+  source: DecimalsSource;
+}
+
+// Token Bridge amounts are normalized to at most 8 decimals
+const WORMHOLE_MAX_DECIMALS = 8;
+
+// Bundled fallback for tokens commonly bridged through Wormhole. Keep entries
+// sorted by chain; EVM addresses are matched case-insensitively.
+export const TOKEN_LIST: readonly TokenMetadata[] = [
+  // Solana
+  { wormholeChainId: 1, address: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v", symbol: "USDC", decimals: 6 },
+  { wormholeChainId: 1, address: "Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB", symbol: "USDT", decimals: 6 },
+  { wormholeChainId: 1, address: "So11111111111111111111111111111111111111112", symbol: "SOL", decimals: 9 },
+  { wormholeChainId: 1, address: "85VBFQZC9TZkfaptBWjvUw7YbZjy52A6mjtPGjstQAmQ", symbol: "W", decimals: 6 },
+  // Ethereum
+  { wormholeChainId: 2, address: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48", symbol: "USDC", decimals: 6 },
+  { wormholeChainId: 2, address: "0xdAC17F958D2ee523a2206206994597C13D831ec7", symbol: "USDT", decimals: 6 },
+  { wormholeChainId: 2, address: "0x6B175474E89094C44Da98b954EedeAC495271d0F", symbol: "DAI", decimals: 18 },
+  { wormholeChainId: 2, address: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2", symbol: "WETH", decimals: 18 },
+  { wormholeChainId: 2, address: "0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599", symbol: "WBTC", decimals: 8 },
+  { wormholeChainId: 2, address: "0xB0fFa8000886e57F86dd5264b9582b2Ad87b2b91", symbol: "W", decimals: 18 },
+  // BNB Smart Chain
+  { wormholeChainId: 4, address: "0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d", symbol: "USDC", decimals: 18 },
+  { wormholeChainId: 4, address: "0x55d398326f99059fF775485246999027B3197955", symbol: "USDT", decimals: 18 },
+  { wormholeChainId: 4, address: "0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c", symbol: "WBNB", decimals: 18 },
+  // Polygon
+  { wormholeChainId: 5, address: "0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359", symbol: "USDC", decimals: 6 },
+  { wormholeChainId: 5, address: "0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174", symbol: "USDC.e", decimals: 6 },
+  { wormholeChainId: 5, address: "0xc2132D05D31c914a87C6611C10748AEb04B58e8F", symbol: "USDT", decimals: 6 },
+  { wormholeChainId: 5, address: "0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619", symbol: "WETH", decimals: 18 },
+  { wormholeChainId: 5, address: "0x1BFD67037B42Cf73acF2047067bd4F2C47D9BfD6", symbol: "WBTC", decimals: 8 },
+  { wormholeChainId: 5, address: "0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270", symbol: "WMATIC", decimals: 18 },
+  // Avalanche
+  { wormholeChainId: 6, address: "0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E", symbol: "USDC", decimals: 6 },
+  { wormholeChainId: 6, address: "0x9702230A8Ea53601f5cD2dc00fDBc13d4dF4A8c7", symbol: "USDT", decimals: 6 },
+  { wormholeChainId: 6, address: "0xB31f66AA3C1e785363F0875A1B74E27b85FD66c7", symbol: "WAVAX", decimals: 18 },
+  // Arbitrum
+  { wormholeChainId: 23, address: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831", symbol: "USDC", decimals: 6 },
+  { wormholeChainId: 23, address: "0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8", symbol: "USDC.e", decimals: 6 },
+  { wormholeChainId: 23, address: "0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9", symbol: "USDT", decimals: 6 },
+  { wormholeChainId: 23, address: "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1", symbol: "WETH", decimals: 18 },
+  // Optimism
+  { wormholeChainId: 24, address: "0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85", symbol: "USDC", decimals: 6 },
+  { wormholeChainId: 24, address: "0x4200000000000000000000000000000000000006", symbol: "WETH", decimals: 18 },
+  // Base
+  { wormholeChainId: 30, address: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913", symbol: "USDC", decimals: 6 },
+  { wormholeChainId: 30, address: "0x4200000000000000000000000000000000000006", symbol: "WETH", decimals: 18 },
+];
+
+/**
+ * Normalize a token address for lookups. EVM addresses are lowercased and
+ * unpadded (Wormhole sometimes reports them as 32-byte hex); other chains'
+ * addresses are case-sensitive and returned as-is.
+ */
+export function normalizeTokenAddress(chain: Chain, address: string): string {
+  if (chain.evmChainId === undefined) return address;
+
+  const hex = address.toLowerCase().replace(/^0x/, "");
+  if (/^0{24}[0-9a-f]{40}$/.test(hex)) return `0x${hex.slice(24)}`;
+  return `0x${hex}`;
+}
+
+const tokenIndex = new Map<string, TokenMetadata>();
+for (const token of TOKEN_LIST) {
+  const chain = chainFromWormholeId(token.wormholeChainId);
+  if (chain) {
+    tokenIndex.set(`${chain.wormholeId}:${normalizeTokenAddress(chain, token.address)}`, token);
+  }
+}
+
+export function lookupToken(chain: Chain, address: string): TokenMetadata | null {
+  return tokenIndex.get(`${chain.wormholeId}:${normalizeTokenAddress(chain, address)}`) ?? null;
+}
+
+/**
+ * Resolve the decimals of a token, preferring what Wormholescan reports.
+ *
+ * Wormholescan only gives `normalizedDecimals`, which is min(decimals, 8):
+ * below 8 it is the real value, at 8 the token may have more. In that case
+ * (or when absent) fall back to the bundled token list, else report unknown.
+ */
+export function resolveTokenDecimals(
+  chain: Chain,
+  address: string,
+  normalizedDecimals?: number | null
+): ResolvedDecimals {
+  if (normalizedDecimals != null && normalizedDecimals < WORMHOLE_MAX_DECIMALS) {
+    return { decimals: normalizedDecimals, source: "wormholescan" };
+  }
+
+  const token = lookupToken(chain, address);
+  if (token) {
+    return { decimals: token.decimals, source: "token-list" };
+  }
+
+  return { decimals: null, source: "unknown" };
+}
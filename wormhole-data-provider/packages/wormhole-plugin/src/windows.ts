@@ -0,0 +1,69 @@
+import type { z } from "every-plugin/zod";
+
+import type { VolumeWindowPreset, VolumeWindowSpec } from "./contract";
+
+type VolumeWindowPresetType = z.infer<typeof VolumeWindowPreset>;
+type VolumeWindowSpecType = z.infer<typeof VolumeWindowSpec>;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Length of the fixed trailing presets
+const PRESET_MS: Record<Exclude<VolumeWindowPresetType, "mtd">, number> = {
+  "1h": HOUR_MS,
+  "24h": 24 * HOUR_MS,
+  "7d": 7 * 24 * HOUR_MS,
+  "30d": 30 * 24 * HOUR_MS,
+  "90d": 90 * 24 * HOUR_MS,
+};
+
+// Length of a volume series bucket
+export const INTERVAL_MS: Record<"hour" | "day", number> = {
+  hour: HOUR_MS,
+  day: 24 * HOUR_MS,
+};
+
+/**
+ * A volume window as timestamps. Presets are open-ended (`end` null) and
+ * run up to now; explicit ranges exclude their end, so adjacent periods
+ * never count an operation twice.
+ */
+export interface WindowRange {
+  start: number;
+  end: number | null;
+}
+
+/**
+ * Resolve a requested window against `now`.
+ */
+export function resolveWindow(window: VolumeWindowSpecType, now: number): WindowRange {
+  if (typeof window !== "string") {
+    return { start: Date.parse(window.from), end: Date.parse(window.to) };
+  }
+
+  if (window === "mtd") {
+    const date = new Date(now);
+    return { start: Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1), end: null };
+  }
+
+  return { start: now - PRESET_MS[window], end: null };
+}
+
+/**
+ * Whether an operation time falls inside a resolved window.
+ */
+export function inWindow(time: number, range: WindowRange): boolean {
+  return time >= range.start && (range.end === null || time < range.end);
+}
+
+/**
+ * Buckets of `intervalMs` covering `[start, end)`, aligned to multiples of
+ * the interval since the epoch (UTC hours and days). The first and last
+ * bucket may extend past the range.
+ */
+export function bucketRange(start: number, end: number, intervalMs: number): Array<{ start: number; end: number }> {
+  const buckets: Array<{ start: number; end: number }> = [];
+  for (let bucket = Math.floor(start / intervalMs) * intervalMs; bucket < end; bucket += intervalMs) {
+    buckets.push({ start: bucket, end: bucket + intervalMs });
+  }
+  return buckets;
+}
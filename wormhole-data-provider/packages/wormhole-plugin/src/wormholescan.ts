@@ -0,0 +1,167 @@
+import { z } from "every-plugin/zod";
+
+import { WormholeDecodeError } from "./errors";
+
+// --- Schemas ---
+// Shapes returned by the Wormholescan API. Optional parts of the payload are
+// often sent as null, so everything we do not strictly need is nullish.
+
+// Decimal amount sent either as a string ("1234.56") or a bare number
+const DecimalString = z
+  .union([z.string(), z.number()])
+  .transform((value) => String(value))
+  .refine((value) => value.trim() !== "" && Number.isFinite(Number(value)), "Expected a decimal number");
+
+const Timestamp = z.string().refine((value) => !Number.isNaN(Date.parse(value)), "Expected a timestamp");
+
+const WormholeChainId = z.number().int().nonnegative();
+
+// Signed VAA metadata attached to an operation
+export const WormholescanVaa = z.object({
+  raw: z.string(),
+  guardianSetIndex: z.number().int().nonnegative(),
+  isDuplicated: z.boolean().nullish(),
+});
+
+// Token Bridge transfer payload (payload type 1 = transfer, 3 = transfer with payload)
+export const TokenTransferPayload = z.object({
+  payloadType: z.union([z.literal(1), z.literal(3)]),
+  amount: DecimalString,
+  tokenAddress: z.string(),
+  tokenChain: WormholeChainId,
+  toAddress: z.string(),
+  toChain: WormholeChainId,
+  fee: DecimalString.nullish(),
+  fromAddress: z.string().nullish(),
+  payload: z.string().nullish(),
+});
+
+// Protocol-agnostic view of the transfer computed by Wormholescan
+export const StandardizedProperties = z.object({
+  appIds: z.array(z.string()).nullish(),
+  fromChain: WormholeChainId.nullish(),
+  fromAddress: z.string().nullish(),
+  toChain: WormholeChainId.nullish(),
+  toAddress: z.string().nullish(),
+  tokenChain: WormholeChainId.nullish(),
+  tokenAddress: z.string().nullish(),
+  amount: DecimalString.nullish(),
+  feeAddress: z.string().nullish(),
+  feeChain: WormholeChainId.nullish(),
+  fee: DecimalString.nullish(),
+  normalizedDecimals: z.number().int().nonnegative().nullish(),
+});
+
+const ChainTransaction = z.object({
+  chainId: WormholeChainId,
+  timestamp: Timestamp,
+  transaction: z.object({ txHash: z.string().nullish() }).nullish(),
+  from: z.string().nullish(),
+  status: z.string().nullish(),
+});
+
+export const WormholescanOperation = z.object({
+  id: z.string().min(1),
+  emitterChain: WormholeChainId,
+  emitterAddress: z.object({ hex: z.string().nullish(), native: z.string().nullish() }).nullish(),
+  sequence: z.string().nullish(),
+  vaa: WormholescanVaa.nullish(),
+  content: z
+    .object({
+      payload: z.record(z.string(), z.unknown()).nullish(),
+      standarizedProperties: StandardizedProperties.nullish(),
+    })
+    .nullish(),
+  sourceChain: ChainTransaction,
+  targetChain: ChainTransaction.partial().nullish(),
+  data: z
+    .object({
+      symbol: z.string().nullish(),
+      tokenAmount: DecimalString.nullish(),
+      usdAmount: DecimalString.nullish(),
+    })
+    .nullish(),
+});
+
+// Envelope of GET /operations; records are decoded one by one
+export const OperationsPage = z.object({
+  operations: z.array(z.unknown()),
+});
+
+export type WormholescanOperationType = z.infer<typeof WormholescanOperation>;
+export type TokenTransferPayloadType = z.infer<typeof TokenTransferPayload>;
+
+// --- Decoding ---
+
+/**
+ * Counts of records that failed to decode, grouped by issue.
+ */
+export interface DecodeDiagnostics {
+  decoded: number;
+  malformed: number;
+  // "path: message" -> number of records with that issue
+  issues: Record<string, number>;
+}
+
+export function emptyDiagnostics(): DecodeDiagnostics {
+  return { decoded: 0, malformed: 0, issues: {} };
+}
+
+export function mergeDiagnostics(target: DecodeDiagnostics, source: DecodeDiagnostics): DecodeDiagnostics {
+  target.decoded += source.decoded;
+  target.malformed += source.malformed;
+  for (const [issue, count] of Object.entries(source.issues)) {
+    target.issues[issue] = (target.issues[issue] ?? 0) + count;
+  }
+  return target;
+}
+
+/**
+ * Decode an operations page. A malformed envelope fails the whole page;
+ * malformed records are skipped and counted in the diagnostics.
+ */
+export function decodeOperationsPage(data: unknown): {
+  operations: WormholescanOperationType[];
+  diagnostics: DecodeDiagnostics;
+} {
+  const page = OperationsPage.safeParse(data);
+  if (!page.success) {
+    throw new WormholeDecodeError({
+      message: "Unexpected operations page shape",
+      issues: page.error.issues.map(formatIssue),
+    });
+  }
+
+  const operations: WormholescanOperationType[] = [];
+  const diagnostics = emptyDiagnostics();
+
+  for (const record of page.data.operations) {
+    const result = WormholescanOperation.safeParse(record);
+    if (result.success) {
+      operations.push(result.data);
+      diagnostics.decoded++;
+      continue;
+    }
+
+    diagnostics.malformed++;
+    for (const issue of new Set(result.error.issues.map(formatIssue))) {
+      diagnostics.issues[issue] = (diagnostics.issues[issue] ?? 0) + 1;
+    }
+  }
+
+  return { operations, diagnostics };
+}
+
+/**
+ * Decode the token-transfer payload of an operation, or null when the
+ * operation is not a Token Bridge transfer.
+ */
+export function decodeTokenTransfer(op: WormholescanOperationType): TokenTransferPayloadType | null {
+  const result = TokenTransferPayload.safeParse(op.content?.payload);
+  return result.success ? result.data : null;
+}
+
+function formatIssue(issue: z.core.$ZodIssue): string {
+  const path = issue.path.length > 0 ? issue.path.join(".") : "(root)";
+  return `${path}: ${issue.message}`;
+}